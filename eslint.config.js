@@ -67,6 +67,8 @@ export default [
       "no-unused-vars": "off",
       "no-shadow": "off",
       "@typescript-eslint/no-shadow": "error",
+      "no-redeclare": "off",
+      "@typescript-eslint/no-redeclare": "error",
       "no-fallthrough": "off",
       "@typescript-eslint/switch-exhaustiveness-check": "error",
       "unicorn/prefer-switch": "error",
@@ -30,6 +30,10 @@ export const deployCommand = command(
         type: [String],
         description: "Target specific resource (can be used multiple times)",
       },
+      parallelism: {
+        type: Number,
+        description: "Maximum number of independent stacks to run at once (default: 1)",
+      },
     },
   },
   async (argv) => {
@@ -40,6 +44,7 @@ export const deployCommand = command(
       skipSynth: argv.flags.skipSynth,
       autoApprove: argv.flags.autoApprove,
       target: argv.flags.target,
+      parallelism: argv.flags.parallelism,
     });
   },
 );
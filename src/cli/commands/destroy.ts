@@ -29,6 +29,10 @@ export const destroyCommand = command(
         type: [String],
         description: "Target specific resource (can be used multiple times)",
       },
+      parallelism: {
+        type: Number,
+        description: "Maximum number of independent stacks to run at once (default: 1)",
+      },
     },
   },
   async (argv) => {
@@ -39,6 +43,7 @@ export const destroyCommand = command(
       skipSynth: argv.flags.skipSynth,
       autoApprove: argv.flags.autoApprove,
       target: argv.flags.target,
+      parallelism: argv.flags.parallelism,
     });
   },
 );
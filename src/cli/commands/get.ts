@@ -20,6 +20,15 @@ export const getCommand = command(
         type: String,
         description: "Comma-separated module list",
       },
+      schema: {
+        type: String,
+        description:
+          "Read provider schemas from a file exported by `terraform providers schema -json`",
+      },
+      noCache: {
+        type: Boolean,
+        description: "Ignore cached provider schemas and bindings",
+      },
     },
   },
   async (argv) => {
@@ -27,6 +36,8 @@ export const getCommand = command(
       output: argv.flags.output,
       providers: argv.flags.providers?.split(","),
       modules: argv.flags.modules?.split(","),
+      schema: argv.flags.schema,
+      noCache: argv.flags.noCache,
     });
   },
 );
@@ -0,0 +1,51 @@
+import { command } from "cleye";
+import { GRAPH_FORMATS, type GraphFormat } from "../../core/graph.js";
+import { graph } from "../graph.js";
+
+function Format(value: string): GraphFormat {
+  const format = GRAPH_FORMATS.find((f) => f === value);
+  if (format === undefined) {
+    throw new Error(`Invalid format "${value}". Expected one of: ${GRAPH_FORMATS.join(", ")}`);
+  }
+  return format;
+}
+
+export const graphCommand = command(
+  {
+    name: "graph",
+    help: {
+      description: "Print the dependency graph of stacks and resources",
+    },
+    flags: {
+      app: {
+        type: String,
+        description: "Command to run the app",
+      },
+      output: {
+        type: String,
+        description: "Output directory (default: cdktf.out)",
+      },
+      format: {
+        type: Format,
+        description: "Graph format: dot, mermaid or json (default: dot)",
+      },
+      out: {
+        type: String,
+        description: "Write the graph to a file instead of stdout",
+      },
+      skipSynth: {
+        type: Boolean,
+        description: "Read the graph from the last synthesis",
+      },
+    },
+  },
+  async (argv) => {
+    await graph({
+      app: argv.flags.app,
+      output: argv.flags.output,
+      format: argv.flags.format,
+      out: argv.flags.out,
+      skipSynth: argv.flags.skipSynth,
+    });
+  },
+);
@@ -0,0 +1,47 @@
+import { command } from "cleye";
+import { BACKEND_TEMPLATES, type BackendTemplate, init } from "../init.js";
+
+function Template(value: string): BackendTemplate {
+  const template = BACKEND_TEMPLATES.find((t) => t === value);
+  if (template === undefined) {
+    throw new Error(
+      `Invalid template "${value}". Expected one of: ${BACKEND_TEMPLATES.join(", ")}`,
+    );
+  }
+  return template;
+}
+
+export const initCommand = command(
+  {
+    name: "init",
+    help: {
+      description: "Create a new tfts project in the current directory",
+    },
+    flags: {
+      template: {
+        type: Template,
+        description: "Backend template: local, s3, gcs or cloud (default: local)",
+      },
+      projectName: {
+        type: String,
+        description: "Project name (default: the directory name)",
+      },
+      providers: {
+        type: String,
+        description: "Comma-separated provider list to add and generate bindings for",
+      },
+      force: {
+        type: Boolean,
+        description: "Overwrite existing project files",
+      },
+    },
+  },
+  async (argv) => {
+    await init({
+      template: argv.flags.template,
+      projectName: argv.flags.projectName,
+      providers: argv.flags.providers?.split(","),
+      force: argv.flags.force,
+    });
+  },
+);
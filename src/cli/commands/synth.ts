@@ -17,12 +17,17 @@ export const synthCommand = command(
         type: String,
         description: "Output directory (default: cdktf.out)",
       },
+      strict: {
+        type: Boolean,
+        description: "Fail on warnings as well as errors",
+      },
     },
   },
   async (argv) => {
     await synth({
       app: argv.flags.app,
       output: argv.flags.output,
+      strict: argv.flags.strict,
     });
   },
 );
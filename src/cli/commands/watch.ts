@@ -0,0 +1,37 @@
+import { command } from "cleye";
+import { watch } from "../watch.js";
+
+export const watchCommand = command(
+  {
+    name: "watch",
+    help: {
+      description: "Synthesize again whenever the app's source files change",
+    },
+    flags: {
+      app: {
+        type: String,
+        description: "Command to run the app",
+      },
+      output: {
+        type: String,
+        description: "Output directory (default: cdktf.out)",
+      },
+      plan: {
+        type: Boolean,
+        description: "Run terraform plan for stacks whose configuration changed",
+      },
+      debounce: {
+        type: Number,
+        description: "Milliseconds to wait for further changes before synthesizing (default: 300)",
+      },
+    },
+  },
+  async (argv) => {
+    await watch({
+      app: argv.flags.app,
+      output: argv.flags.output,
+      plan: argv.flags.plan,
+      debounce: argv.flags.debounce,
+    });
+  },
+);
@@ -7,14 +7,28 @@ const coercedBoolean = z
   .optional()
   .default(false);
 
+const ProviderConfigSchema = z.union([
+  z.string(),
+  z.object({
+    source: z.string(),
+    version: z.string().optional(),
+    schemaFile: z.string().optional(),
+    resources: z.array(z.string()).optional(),
+    dataSources: z.array(z.string()).optional(),
+  }),
+]);
+
+export type ProviderConfig = z.infer<typeof ProviderConfigSchema>;
+
 export const TftsConfigSchema = z.object({
   language: z.enum(["typescript"]).default("typescript"),
   app: z.string(),
   output: z.string().default("cdktf.out"),
   codeMakerOutput: z.string().optional(),
+  watchPattern: z.array(z.string()).optional(),
   projectId: z.string().optional(),
   sendCrashReports: coercedBoolean,
-  terraformProviders: z.array(z.string()).optional(),
+  terraformProviders: z.array(ProviderConfigSchema).optional(),
   terraformModules: z.array(z.string()).optional(),
   context: z.record(z.string(), z.unknown()).optional(),
 });
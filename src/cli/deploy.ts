@@ -1,5 +1,7 @@
 import { spawn } from "node:child_process";
-import { existsSync, readdirSync } from "node:fs";
+import { existsSync } from "node:fs";
+import { readStackManifests, stackDependencies } from "./manifest.js";
+import { parseParallelism, runInDependencyOrder, selectStacks } from "./stacks.js";
 import { synth } from "./synth.js";
 
 export type DeployOptions = {
@@ -10,6 +12,7 @@ export type DeployOptions = {
   skipSynth?: boolean;
   autoApprove?: boolean;
   target?: string[];
+  parallelism?: number;
 };
 
 async function runCommand(command: string, args: readonly string[], cwd: string): Promise<number> {
@@ -23,16 +26,6 @@ async function runCommand(command: string, args: readonly string[], cwd: string)
   });
 }
 
-function getStacks(outputDir: string): readonly string[] {
-  const stacksDir = `${outputDir}/stacks`;
-  if (!existsSync(stacksDir)) {
-    return [];
-  }
-  return readdirSync(stacksDir, { withFileTypes: true })
-    .filter((entry) => entry.isDirectory())
-    .map((entry) => entry.name);
-}
-
 export async function deploy(options: DeployOptions = {}): Promise<void> {
   const cwd = options.cwd ?? process.cwd();
   const outputDir = options.output ?? "cdktf.out";
@@ -47,34 +40,34 @@ export async function deploy(options: DeployOptions = {}): Promise<void> {
     console.log();
   }
 
-  const stacks = getStacks(outputPath);
+  const manifests = readStackManifests(outputPath);
+  const stacks = manifests.map((manifest) => manifest.name);
   if (stacks.length === 0) {
-    throw new Error(`No stacks found in ${outputDir}/stacks`);
+    throw new Error(`No stacks found in ${outputDir}/manifest.json`);
   }
 
-  let targetStack: string;
+  const targetStacks = selectStacks(stacks, options.stack, "deploy");
+  const parallelism = parseParallelism(options.parallelism, options.autoApprove === true);
+  const dependencies = stackDependencies(manifests);
 
-  if (options.stack !== undefined) {
-    if (!stacks.includes(options.stack)) {
-      throw new Error(`Stack "${options.stack}" not found. Available stacks: ${stacks.join(", ")}`);
-    }
-    targetStack = options.stack;
-  } else if (stacks.length === 1 && stacks[0] !== undefined) {
-    targetStack = stacks[0];
-  } else {
-    throw new Error(
-      `Found more than one stack, please specify a target stack. Run tfts deploy <stack> with one of these stacks: ${stacks.join(", ")}`,
-    );
-  }
+  await runInDependencyOrder(targetStacks, dependencies, parallelism, async (stack) => {
+    await deployStack(stack, outputPath, options);
+  });
+}
 
-  const stackDir = `${outputPath}/stacks/${targetStack}`;
+async function deployStack(
+  stack: string,
+  outputPath: string,
+  options: DeployOptions,
+): Promise<void> {
+  const stackDir = `${outputPath}/stacks/${stack}`;
 
   const needsInit = !existsSync(`${stackDir}/.terraform`);
   if (needsInit) {
-    console.log("Running terraform init...\n");
+    console.log(`Running terraform init for stack ${stack}...\n`);
     const initCode = await runCommand("terraform", ["init"], stackDir);
     if (initCode !== 0) {
-      throw new Error(`terraform init failed for stack ${targetStack}`);
+      throw new Error(`terraform init failed for stack ${stack}`);
     }
     console.log();
   }
@@ -87,6 +80,6 @@ export async function deploy(options: DeployOptions = {}): Promise<void> {
 
   const applyCode = await runCommand("terraform", applyArgs, stackDir);
   if (applyCode !== 0) {
-    throw new Error(`terraform apply failed for stack ${targetStack}`);
+    throw new Error(`terraform apply failed for stack ${stack}`);
   }
 }
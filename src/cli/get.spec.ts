@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, type Mock, spyOn, test } from "bun:test";
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { cacheKey, type TerraformSchema, writeCachedSchema } from "../codegen/index.js";
+import { get } from "./get.js";
+
+const schema: TerraformSchema = {
+  format_version: "1.0",
+  provider_schemas: {
+    "registry.terraform.io/hashicorp/test": { provider: { block: {} } },
+  },
+};
+
+const lockFile = `
+provider "registry.terraform.io/hashicorp/test" {
+  version     = "1.2.0"
+  constraints = "~> 1.0"
+}
+`;
+
+describe("get", () => {
+  let cwd: string;
+  let cacheDir: string;
+  let log: Mock<typeof console.log>;
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), "tfts.get."));
+    cacheDir = mkdtempSync(join(tmpdir(), "tfts.get-cache."));
+    writeCachedSchema(cacheDir, cacheKey({ fqn: "hashicorp/test", version: "1.2.0" }), schema);
+    log = spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    log.mockRestore();
+    rmSync(cwd, { recursive: true, force: true });
+    rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  test("uses the version locked in .terraform.lock.hcl for a ranged constraint", async () => {
+    writeFileSync(join(cwd, ".terraform.lock.hcl"), lockFile);
+
+    await get({ cwd, providers: ["hashicorp/test@~> 1.0"], cacheDir });
+
+    expect(log).toHaveBeenCalledWith("    Using cached schema for hashicorp/test@1.2.0");
+    expect(existsSync(join(cwd, ".gen/providers/hashicorp/test/index.ts"))).toBe(true);
+  });
+
+  test("reads lock files that terraform left in synthesized stacks", async () => {
+    const stackDir = join(cwd, "cdktf.out", "stacks", "app");
+    mkdirSync(stackDir, { recursive: true });
+    writeFileSync(join(stackDir, ".terraform.lock.hcl"), lockFile);
+
+    await get({ cwd, providers: ["hashicorp/test@>= 1.1"], cacheDir });
+
+    expect(log).toHaveBeenCalledWith("    Using cached schema for hashicorp/test@1.2.0");
+  });
+});
@@ -1,28 +1,80 @@
+import { existsSync, readdirSync, readFileSync } from "node:fs";
 import { mkdir, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
-import { join } from "node:path";
+import { dirname, join, relative, resolve } from "node:path";
+import { URL } from "node:url";
+import { ok, type Result } from "neverthrow";
+import { z } from "zod";
 import {
+  type CacheKeyParts,
+  cacheKey,
   cleanupWorkDir,
+  defaultCacheDir,
+  exactVersion,
+  fetchModule,
   fetchProviderSchema,
+  type GeneratedFile,
+  type GenerateOptions,
+  generateModuleBindings,
   generateProviderBindings,
+  hashContent,
+  parseModuleConstraint,
+  parseModuleFiles,
+  type ProviderConstraint,
   parseProviderConstraint,
+  parseProviderVersionFromLockFile,
+  readCachedBindings,
+  readCachedSchema,
+  readModuleFiles,
+  readProviderSchemaFile,
+  satisfiesVersion,
+  type TerraformSchema,
+  writeCachedBindings,
+  writeCachedSchema,
 } from "../codegen/index.js";
-import { findConfig, readConfig } from "./config.js";
+import { findConfig, type ProviderConfig, readConfig } from "./config.js";
 
 export type GetOptions = {
   cwd?: string;
   output?: string;
   providers?: string[];
   modules?: string[];
+  schema?: string;
+  noCache?: boolean;
+  cacheDir?: string;
 };
 
+type ProviderSource = {
+  readonly spec: string;
+  readonly schemaFile?: string;
+  readonly options?: GenerateOptions;
+};
+
+function toProviderSource(provider: ProviderConfig, cwd: string): ProviderSource {
+  if (typeof provider === "string") {
+    return { spec: provider };
+  }
+  const spec =
+    provider.version !== undefined ? `${provider.source}@${provider.version}` : provider.source;
+  const options = { resources: provider.resources, dataSources: provider.dataSources };
+  return provider.schemaFile !== undefined
+    ? { spec, schemaFile: resolve(cwd, provider.schemaFile), options }
+    : { spec, options };
+}
+
 export async function get(options: GetOptions = {}): Promise<void> {
   const cwd = options.cwd ?? process.cwd();
 
   const configPath = findConfig(cwd);
   const config = configPath !== null ? readConfig(configPath) : null;
 
-  const providers = options.providers ?? config?.terraformProviders ?? [];
+  // --schema applies to every provider, since one exported schema can hold several of them
+  const providers = (options.providers ?? config?.terraformProviders ?? []).map((provider) => {
+    const source = toProviderSource(provider, cwd);
+    return options.schema !== undefined
+      ? { ...source, schemaFile: resolve(cwd, options.schema) }
+      : source;
+  });
   const modules = options.modules ?? config?.terraformModules ?? [];
   const output = options.output ?? config?.codeMakerOutput ?? ".gen";
 
@@ -33,45 +85,109 @@ export async function get(options: GetOptions = {}): Promise<void> {
     return;
   }
 
+  const cache: ProviderCache | null =
+    options.noCache === true
+      ? null
+      : {
+          dir: options.cacheDir ?? process.env["TFTS_CACHE_DIR"] ?? defaultCacheDir(),
+          generatorVersion: readGeneratorVersion(),
+        };
+
+  const lockFiles = findLockFiles(cwd, config?.output ?? "cdktf.out");
+
   console.log("Generating provider bindings...");
   console.log(`  Output: ${output}`);
 
   await providers.reduce(async (prev, provider) => {
     await prev;
-    console.log(`  Generating: ${provider}`);
-    await generateProvider(provider, `${cwd}/${output}`);
+    console.log(`  Generating: ${provider.spec}`);
+    await generateProvider(provider, `${cwd}/${output}`, cache, lockFiles);
   }, Promise.resolve());
 
   await modules.reduce(async (prev, module) => {
     await prev;
     console.log(`  Generating: ${module}`);
-    await generateModule(module, `${cwd}/${output}`);
+    await generateModule(module, cwd, `${cwd}/${output}`, config?.output ?? "cdktf.out");
   }, Promise.resolve());
 
   console.log("\nGeneration complete!");
 }
 
-async function generateProvider(providerSpec: string, outputDir: string): Promise<void> {
-  const constraint = parseProviderConstraint(providerSpec);
+type ProviderCache = {
+  readonly dir: string;
+  readonly generatorVersion: string;
+};
+
+type LoadedSchema = {
+  readonly schema: TerraformSchema;
+  readonly resolvedVersion: string | undefined;
+  // Identifies the schema contents; null when it cannot be pinned down, which disables caching
+  readonly cacheKeyParts: CacheKeyParts | null;
+};
+
+type ProviderBindings = {
+  readonly files: GeneratedFile[];
+  readonly fromCache: boolean;
+};
+
+const LOCK_FILE = ".terraform.lock.hcl";
+
+// Lock files that `terraform init` left in the project or in its synthesized stacks
+function findLockFiles(cwd: string, synthOutput: string): string[] {
+  const stacksDir = join(cwd, synthOutput, "stacks");
+  const stackLockFiles = existsSync(stacksDir)
+    ? readdirSync(stacksDir)
+        .sort()
+        .map((stack) => join(stacksDir, stack, LOCK_FILE))
+    : [];
+  return [join(cwd, LOCK_FILE), ...stackLockFiles].filter((path) => existsSync(path));
+}
+
+// An exact pin, or the locked version a range resolved to, names the release up front
+function pinnedVersion(
+  constraint: ProviderConstraint,
+  lockFiles: readonly string[],
+): string | undefined {
+  const exact = exactVersion(constraint.version);
+  if (exact !== undefined) {
+    return exact;
+  }
+  return lockFiles
+    .map((lockFile) =>
+      parseProviderVersionFromLockFile(lockFile, `registry.terraform.io/${constraint.fqn}`),
+    )
+    .find((version) => version !== undefined && satisfiesVersion(version, constraint.version));
+}
+
+function readGeneratorVersion(): string {
+  // Resolves to the package root from both src/cli and dist/cli
+  const content: unknown = JSON.parse(
+    readFileSync(new URL("../../package.json", import.meta.url), "utf-8"),
+  );
+  return z.object({ version: z.string() }).parse(content).version;
+}
+
+async function generateProvider(
+  provider: ProviderSource,
+  outputDir: string,
+  cache: ProviderCache | null,
+  lockFiles: readonly string[],
+): Promise<void> {
+  const constraint = parseProviderConstraint(provider.spec);
   const workDir = join(tmpdir(), `tfts-schema-${constraint.name}-${Date.now()}`);
+  const pinned = pinnedVersion(constraint, lockFiles);
 
   try {
-    console.log(`    Fetching schema for ${constraint.fqn}@${constraint.version ?? "latest"}...`);
-
-    const { schema, resolvedVersion } = fetchProviderSchema(constraint, workDir);
-    const constraintWithVersion = {
-      ...constraint,
-      version: resolvedVersion ?? constraint.version,
-    };
-    const result = generateProviderBindings(constraintWithVersion, schema);
+    const result = resolveProviderBindings(provider, constraint, pinned, workDir, cache);
 
     if (result.isErr()) {
       console.error(`    Error: ${result.error.message}`);
       return;
     }
 
+    const { files, fromCache } = result.value;
     await Promise.all(
-      result.value.map(async (file) => {
+      files.map(async (file) => {
         const filePath = join(outputDir, file.path);
         const dir = filePath.substring(0, filePath.lastIndexOf("/"));
         await mkdir(dir, { recursive: true });
@@ -79,73 +195,157 @@ async function generateProvider(providerSpec: string, outputDir: string): Promis
       }),
     );
 
-    console.log(`    Generated ${result.value.length} files`);
+    console.log(`    ${fromCache ? "Restored" : "Generated"} ${files.length} files`);
   } finally {
     cleanupWorkDir(workDir);
   }
 }
 
-function parseModuleSpec(spec: string): {
-  namespace: string;
-  name: string;
-  provider: string;
-  version: string;
-} | null {
-  const atIndex = spec.indexOf("@");
-  const fullName = atIndex === -1 ? spec : spec.slice(0, atIndex);
-  const version = atIndex === -1 ? "latest" : spec.slice(atIndex + 1);
-  const parts = fullName.split("/");
-
-  if (parts.length < 3) {
-    return null;
+function resolveProviderBindings(
+  provider: ProviderSource,
+  constraint: ProviderConstraint,
+  pinned: string | undefined,
+  workDir: string,
+  cache: ProviderCache | null,
+): Result<ProviderBindings, Error> {
+  const bindingsKey = (parts: CacheKeyParts): string =>
+    cacheKey({
+      ...parts,
+      generatorVersion: cache?.generatorVersion,
+      resources: provider.options?.resources?.join(","),
+      dataSources: provider.options?.dataSources?.join(","),
+    });
+
+  // With a pinned version the cache key is known up front, so a hit skips terraform entirely
+  if (cache !== null && provider.schemaFile === undefined && pinned !== undefined) {
+    const cached = readCachedBindings(
+      cache.dir,
+      bindingsKey({ fqn: constraint.fqn, version: pinned }),
+    );
+    if (cached !== null) {
+      console.log(`    Using cached bindings for ${constraint.fqn}@${pinned}`);
+      return ok({ files: cached, fromCache: true });
+    }
   }
 
-  return {
-    namespace: parts[0] ?? "",
-    name: parts[1] ?? "",
-    provider: parts[2] ?? "",
-    version,
-  };
+  return loadProviderSchema(provider, constraint, pinned, workDir, cache).andThen((loaded) => {
+    const key =
+      cache !== null && loaded.cacheKeyParts !== null ? bindingsKey(loaded.cacheKeyParts) : null;
+    const cached = cache !== null && key !== null ? readCachedBindings(cache.dir, key) : null;
+    if (cached !== null) {
+      console.log(`    Using cached bindings for ${constraint.fqn}`);
+      return ok({ files: cached, fromCache: true });
+    }
+
+    const constraintWithVersion = {
+      ...constraint,
+      version: loaded.resolvedVersion ?? constraint.version,
+    };
+    const generated = generateProviderBindings(
+      constraintWithVersion,
+      loaded.schema,
+      provider.options,
+    );
+    return generated.map((files) => {
+      if (cache !== null && key !== null) {
+        writeCachedBindings(cache.dir, key, files);
+      }
+      return { files, fromCache: false };
+    });
+  });
 }
 
-async function generateModule(moduleSpec: string, outputDir: string): Promise<void> {
-  const parsed = parseModuleSpec(moduleSpec);
+function loadProviderSchema(
+  provider: ProviderSource,
+  constraint: ProviderConstraint,
+  pinned: string | undefined,
+  workDir: string,
+  cache: ProviderCache | null,
+): Result<LoadedSchema, Error> {
+  const { schemaFile } = provider;
+  if (schemaFile !== undefined) {
+    console.log(`    Reading schema for ${constraint.fqn} from ${schemaFile}...`);
+    return readProviderSchemaFile(schemaFile).map((schema) => ({
+      schema,
+      resolvedVersion: undefined,
+      cacheKeyParts: {
+        fqn: constraint.fqn,
+        version: constraint.version,
+        schemaFile: hashContent(readFileSync(schemaFile, "utf-8")),
+      },
+    }));
+  }
+
+  if (cache !== null && pinned !== undefined) {
+    const keyParts = { fqn: constraint.fqn, version: pinned };
+    const cached = readCachedSchema(cache.dir, cacheKey(keyParts));
+    if (cached !== null) {
+      console.log(`    Using cached schema for ${constraint.fqn}@${pinned}`);
+      return ok({ schema: cached, resolvedVersion: pinned, cacheKeyParts: keyParts });
+    }
+  }
+
+  console.log(`    Fetching schema for ${constraint.fqn}@${constraint.version ?? "latest"}...`);
+  const { schema, resolvedVersion } = fetchProviderSchema(constraint, workDir);
+  const keyParts =
+    resolvedVersion !== undefined ? { fqn: constraint.fqn, version: resolvedVersion } : null;
+  if (cache !== null && keyParts !== null) {
+    writeCachedSchema(cache.dir, cacheKey(keyParts), schema);
+  }
+  return ok({ schema, resolvedVersion, cacheKeyParts: keyParts });
+}
+
+async function generateModule(
+  moduleSpec: string,
+  cwd: string,
+  outputDir: string,
+  synthOutput: string,
+): Promise<void> {
+  const parsed = parseModuleConstraint(moduleSpec);
   if (!parsed) {
     console.log(`    Skipping ${moduleSpec}: invalid module format`);
     return;
   }
 
-  const { namespace, name, provider, version } = parsed;
-  const moduleDir = `${outputDir}/modules/${namespace}/${name}/${provider}`;
-  await mkdir(moduleDir, { recursive: true });
-
-  console.log(`    Generating module ${namespace}/${name}/${provider}@${version}...`);
+  const workDir = join(tmpdir(), `tfts-module-${parsed.name}-${Date.now()}`);
 
-  const className = capitalize(name);
-  const content = `import { TerraformModule } from "../../../facade/terraform-module.js";
-import type { Construct } from "../../../facade/construct.js";
+  try {
+    let constraint = parsed;
+    let moduleDir: string;
 
-export type ${className}ModuleConfig = {
-  readonly source?: string;
-  readonly version?: string;
-};
+    if (parsed.local) {
+      moduleDir = resolve(cwd, parsed.source);
+      console.log(`    Reading module ${parsed.source}...`);
+      // Local module sources are resolved by Terraform relative to the synthesized stack
+      // directory, and every stack is written at the same depth under the synth output
+      const stackDir = join(cwd, synthOutput, "stacks", "stack");
+      constraint = { ...parsed, source: relative(stackDir, moduleDir) };
+    } else {
+      console.log(`    Downloading module ${parsed.source}@${parsed.version ?? "latest"}...`);
+      const fetched = fetchModule(parsed, workDir);
+      if (fetched.isErr()) {
+        console.error(`    Error: ${fetched.error.message}`);
+        return;
+      }
+      moduleDir = fetched.value.moduleDir;
+      constraint = { ...parsed, version: fetched.value.resolvedVersion ?? parsed.version };
+    }
 
-export class ${className}Module extends TerraformModule {
-  constructor(scope: Construct, id: string, config: ${className}ModuleConfig = {}) {
-    super(scope, id, {
-      source: "${namespace}/${name}/${provider}",
-      version: config.version ?? "${version}",
-    });
-  }
-}
-`;
+    const schema = parseModuleFiles(readModuleFiles(moduleDir));
+    if (schema.isErr()) {
+      console.error(`    Error: ${schema.error.message}`);
+      return;
+    }
 
-  await writeFile(`${moduleDir}/index.ts`, content);
-}
+    const file = generateModuleBindings(constraint, schema.value);
+    const filePath = join(outputDir, file.path);
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(filePath, file.content);
 
-function capitalize(str: string): string {
-  return str
-    .split("-")
-    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
-    .join("");
+    console.log(
+      `    Generated ${String(schema.value.variables.length)} variables and ${String(schema.value.outputs.length)} outputs`,
+    );
+  } finally {
+    cleanupWorkDir(workDir);
+  }
 }
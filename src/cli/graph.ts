@@ -0,0 +1,78 @@
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { z } from "zod";
+import { type DependencyGraph, type GraphFormat, renderGraph } from "../core/graph.js";
+import { synth } from "./synth.js";
+
+const GraphSchema = z.object({
+  nodes: z.array(
+    z.object({
+      id: z.string(),
+      kind: z.enum(["stack", "element"]),
+      stack: z.string(),
+      label: z.string(),
+      constructPath: z.string(),
+    }),
+  ),
+  edges: z.array(
+    z.object({
+      from: z.string(),
+      to: z.string(),
+      kind: z.enum(["stack", "depends-on", "reference"]),
+    }),
+  ),
+});
+
+export type GraphOptions = {
+  app?: string;
+  output?: string;
+  cwd?: string;
+  format?: GraphFormat;
+  out?: string;
+  skipSynth?: boolean;
+};
+
+export function readGraph(outputPath: string): DependencyGraph | null {
+  const path = `${outputPath}/graph.json`;
+  if (!existsSync(path)) {
+    return null;
+  }
+  const content: unknown = JSON.parse(readFileSync(path, "utf-8"));
+  const parsed = GraphSchema.safeParse(content);
+  return parsed.success ? parsed.data : null;
+}
+
+export async function graph(options: GraphOptions = {}): Promise<void> {
+  const cwd = options.cwd ?? process.cwd();
+  const outputDir = options.output ?? "cdktf.out";
+  const outputPath = `${cwd}/${outputDir}`;
+
+  // Without --out the graph itself goes to stdout, so nothing else may be written there
+  const toStdout = options.out === undefined;
+  if (options.skipSynth !== true) {
+    await synth({
+      app: options.app,
+      output: outputDir,
+      cwd,
+      env: { TFTS_GRAPH_OUTPUT: "true" },
+      logToStderr: toStdout,
+    });
+    if (toStdout) {
+      console.error();
+    } else {
+      console.log();
+    }
+  }
+
+  const dependencyGraph = readGraph(outputPath);
+  if (dependencyGraph === null) {
+    throw new Error(`No graph found in ${outputDir}/. Run "tfts graph" without --skip-synth.`);
+  }
+
+  const rendered = renderGraph(dependencyGraph, options.format ?? "dot");
+  if (options.out !== undefined) {
+    writeFileSync(`${cwd}/${options.out}`, rendered);
+    console.log(`Graph written to ${options.out}`);
+    return;
+  }
+  process.stdout.write(rendered);
+}
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, type Mock, spyOn, test } from "bun:test";
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { TftsConfigSchema } from "./config.js";
+import { init } from "./init.js";
+
+describe("init", () => {
+  let cwd: string;
+  let log: Mock<typeof console.log>;
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), "tfts.init."));
+    log = spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    log.mockRestore();
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  test("writes a project that uses the local backend by default", async () => {
+    await init({ cwd, projectName: "My Project" });
+
+    const config = TftsConfigSchema.parse(
+      JSON.parse(readFileSync(join(cwd, "cdktf.json"), "utf-8")),
+    );
+    expect(config.app).toBe("npx tsx main.ts");
+    expect(config.terraformProviders).toBeUndefined();
+    const main = readFileSync(join(cwd, "main.ts"), "utf-8");
+    expect(main).toContain('new LocalBackend(this, { path: "terraform.my-project.tfstate" });');
+    expect(main).toContain('new MyStack(app, "my-project");');
+    expect(readFileSync(join(cwd, "main.spec.ts"), "utf-8")).toContain("Testing.synthScope");
+    expect(existsSync(join(cwd, "tsconfig.json"))).toBe(true);
+    expect(readFileSync(join(cwd, ".gitignore"), "utf-8")).toBe(
+      "cdktf.out\n.gen\n.terraform\n*.tfstate*\n",
+    );
+    expect(log).toHaveBeenCalledWith(
+      'Initializing tfts project "My Project" with the local backend...',
+    );
+  });
+
+  test.each([
+    ["s3", "new S3Backend(this, {"],
+    ["gcs", "new GcsBackend(this, {"],
+    ["cloud", 'workspaces: new NamedCloudWorkspace("app"),'],
+  ] as const)("renders the %s backend template", async (template, expected) => {
+    await init({ cwd, projectName: "app", template });
+
+    expect(readFileSync(join(cwd, "main.ts"), "utf-8")).toContain(expected);
+  });
+
+  test("adds only missing .gitignore entries", async () => {
+    writeFileSync(join(cwd, ".gitignore"), "node_modules\n.gen");
+
+    await init({ cwd });
+
+    expect(readFileSync(join(cwd, ".gitignore"), "utf-8")).toBe(
+      "node_modules\n.gen\ncdktf.out\n.terraform\n*.tfstate*\n",
+    );
+  });
+
+  test("refuses to overwrite existing files without force", async () => {
+    writeFileSync(join(cwd, "main.ts"), "// mine\n");
+
+    expect(
+      await init({ cwd }).then(
+        () => null,
+        (error: unknown) => error,
+      ),
+    ).toEqual(new Error("Refusing to overwrite main.ts. Use --force to overwrite existing files."));
+    expect(readFileSync(join(cwd, "main.ts"), "utf-8")).toBe("// mine\n");
+    expect(existsSync(join(cwd, "cdktf.json"))).toBe(false);
+
+    await init({ cwd, force: true });
+    expect(readFileSync(join(cwd, "main.ts"), "utf-8")).toContain("class MyStack");
+  });
+});
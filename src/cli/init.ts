@@ -0,0 +1,216 @@
+import { randomUUID } from "node:crypto";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { basename } from "node:path";
+import { parseProviderConstraint, toPascalCase } from "../codegen/index.js";
+import { TftsConfigSchema } from "./config.js";
+import { get } from "./get.js";
+
+export type BackendTemplate = "local" | "s3" | "gcs" | "cloud";
+
+export const BACKEND_TEMPLATES: readonly BackendTemplate[] = ["local", "s3", "gcs", "cloud"];
+
+export type InitOptions = {
+  cwd?: string;
+  template?: BackendTemplate;
+  projectName?: string;
+  providers?: string[];
+  force?: boolean;
+};
+
+const GITIGNORE_ENTRIES = ["cdktf.out", ".gen", ".terraform", "*.tfstate*"];
+
+type BackendCode = {
+  readonly imports: readonly string[];
+  readonly statement: string;
+};
+
+function backendCode(template: BackendTemplate, stackName: string): BackendCode {
+  switch (template) {
+    case "local":
+      return {
+        imports: ["LocalBackend"],
+        statement: `new LocalBackend(this, { path: "terraform.${stackName}.tfstate" });`,
+      };
+    case "s3":
+      return {
+        imports: ["S3Backend"],
+        statement: `new S3Backend(this, {
+      bucket: "my-terraform-state",
+      key: "${stackName}/terraform.tfstate",
+      region: "us-east-1",
+    });`,
+      };
+    case "gcs":
+      return {
+        imports: ["GcsBackend"],
+        statement: `new GcsBackend(this, {
+      bucket: "my-terraform-state",
+      prefix: "${stackName}",
+    });`,
+      };
+    case "cloud":
+      return {
+        imports: ["CloudBackend", "NamedCloudWorkspace"],
+        statement: `new CloudBackend(this, {
+      organization: "my-organization",
+      workspaces: new NamedCloudWorkspace("${stackName}"),
+    });`,
+      };
+  }
+}
+
+type ProviderCode = {
+  readonly importLines: readonly string[];
+  readonly statement: string;
+};
+
+// Providers are imported from the bindings that `tfts get` writes to .gen
+function providerCode(providers: readonly string[]): ProviderCode {
+  const constraints = providers.map(parseProviderConstraint);
+  return {
+    importLines: constraints.map(
+      (c) =>
+        `import { ${toPascalCase(c.name)}Provider } from "./.gen/providers/${c.namespace}/${c.name}/index.js";`,
+    ),
+    statement: constraints
+      .map((c) => `new ${toPascalCase(c.name)}Provider(this, "${c.name}");`)
+      .join("\n    "),
+  };
+}
+
+function renderMainTs(
+  stackName: string,
+  template: BackendTemplate,
+  providers: readonly string[],
+): string {
+  const backend = backendCode(template, stackName);
+  const provider = providerCode(providers);
+  const tftsImports = ["App", ...backend.imports, "TerraformOutput", "TerraformStack"];
+  const providerSetup =
+    providers.length > 0
+      ? provider.statement
+      : "// Add providers to cdktf.json, run `tfts get` and configure them here";
+  return `import type { Construct } from "tfts";
+import { ${tftsImports.join(", ")} } from "tfts";
+${provider.importLines.map((line) => `${line}\n`).join("")}
+class MyStack extends TerraformStack {
+  constructor(scope: Construct, id: string) {
+    super(scope, id);
+
+    ${backend.statement}
+
+    ${providerSetup}
+
+    new TerraformOutput(this, "greeting", { value: "Hello from tfts" });
+  }
+}
+
+const app = new App();
+new MyStack(app, "${stackName}");
+app.synth();
+`;
+}
+
+const MAIN_SPEC_TS = `import assert from "node:assert/strict";
+import { test } from "node:test";
+import { TerraformOutput, Testing } from "tfts";
+
+test("synthesizes the greeting output", () => {
+  const synth = Testing.synthScope((scope) => {
+    new TerraformOutput(scope, "greeting", { value: "Hello from tfts" });
+  });
+
+  assert.equal(synth.output?.["greeting"]?.["value"], "Hello from tfts");
+});
+`;
+
+const TSCONFIG_JSON = {
+  compilerOptions: {
+    target: "ES2022",
+    module: "NodeNext",
+    moduleResolution: "NodeNext",
+    strict: true,
+    skipLibCheck: true,
+    noEmit: true,
+  },
+  include: ["**/*.ts"],
+  exclude: ["node_modules", "cdktf.out"],
+};
+
+function stackNameFor(projectName: string): string {
+  const name = projectName
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return name !== "" ? name : "my-stack";
+}
+
+// Adds the entries a .gitignore is missing and keeps everything it already has
+function gitignoreContent(existing: string): string {
+  const lines = new Set(existing.split(/\r?\n/).map((line) => line.trim()));
+  const missing = GITIGNORE_ENTRIES.filter((entry) => !lines.has(entry));
+  if (missing.length === 0) {
+    return existing;
+  }
+  const separator = existing === "" || existing.endsWith("\n") ? "" : "\n";
+  return `${existing}${separator}${missing.join("\n")}\n`;
+}
+
+export async function init(options: InitOptions = {}): Promise<void> {
+  const cwd = options.cwd ?? process.cwd();
+  const template = options.template ?? "local";
+  const providers = options.providers ?? [];
+  const projectName = options.projectName ?? basename(cwd);
+  const stackName = stackNameFor(projectName);
+
+  const config = TftsConfigSchema.parse({
+    language: "typescript",
+    app: "npx tsx main.ts",
+    output: "cdktf.out",
+    codeMakerOutput: ".gen",
+    projectId: randomUUID(),
+    ...(providers.length > 0 ? { terraformProviders: providers } : {}),
+  });
+
+  const files: Record<string, string> = {
+    "cdktf.json": `${JSON.stringify(config, null, 2)}\n`,
+    "main.ts": renderMainTs(stackName, template, providers),
+    "main.spec.ts": MAIN_SPEC_TS,
+    "tsconfig.json": `${JSON.stringify(TSCONFIG_JSON, null, 2)}\n`,
+  };
+
+  const existing = Object.keys(files).filter((file) => existsSync(`${cwd}/${file}`));
+  if (existing.length > 0 && options.force !== true) {
+    throw new Error(
+      `Refusing to overwrite ${existing.join(", ")}. Use --force to overwrite existing files.`,
+    );
+  }
+
+  console.log(`Initializing tfts project "${projectName}" with the ${template} backend...`);
+  for (const [file, content] of Object.entries(files)) {
+    writeFileSync(`${cwd}/${file}`, content);
+    console.log(`  Created: ${file}`);
+  }
+
+  const gitignorePath = `${cwd}/.gitignore`;
+  const gitignore = existsSync(gitignorePath) ? readFileSync(gitignorePath, "utf-8") : "";
+  const updated = gitignoreContent(gitignore);
+  if (updated !== gitignore) {
+    writeFileSync(gitignorePath, updated);
+    console.log(`  ${gitignore === "" ? "Created" : "Updated"}: .gitignore`);
+  }
+
+  if (providers.length > 0) {
+    console.log();
+    await get({ cwd });
+  }
+
+  console.log("\nNext steps:");
+  console.log("  npm install tfts");
+  console.log("  npm install --save-dev tsx typescript @types/node");
+  if (providers.length === 0) {
+    console.log("  Add providers to cdktf.json and run: npx tfts get");
+  }
+  console.log("  npx tfts synth");
+  console.log("  npx tsx --test main.spec.ts");
+}
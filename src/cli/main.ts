@@ -5,9 +5,12 @@ import { destroyCommand } from "./commands/destroy.js";
 import { diffCommand } from "./commands/diff.js";
 import { forceUnlockCommand } from "./commands/force-unlock.js";
 import { getCommand } from "./commands/get.js";
+import { graphCommand } from "./commands/graph.js";
+import { initCommand } from "./commands/init.js";
 import { listCommand } from "./commands/list.js";
 import { outputCommand } from "./commands/output.js";
 import { synthCommand } from "./commands/synth.js";
+import { watchCommand } from "./commands/watch.js";
 
 const parsed = cli(
   {
@@ -17,12 +20,15 @@ const parsed = cli(
       description: "Terraform TypeScript SDK",
     },
     commands: [
+      initCommand,
       synthCommand,
+      watchCommand,
       getCommand,
       diffCommand,
       deployCommand,
       destroyCommand,
       listCommand,
+      graphCommand,
       outputCommand,
       forceUnlockCommand,
     ],
@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { deploy } from "./deploy.js";
+import { readStackManifests, stackDependencies } from "./manifest.js";
+
+function stackEntry(
+  outputPath: string,
+  name: string,
+  dependencies: string[],
+): Record<string, unknown> {
+  return {
+    name,
+    constructPath: name,
+    synthesizedStackPath: join(outputPath, "stacks", name, "cdk.tf.json"),
+    workingDirectory: join(outputPath, "stacks", name),
+    annotations: [],
+    dependencies,
+    assets: [],
+  };
+}
+
+function writeManifest(outputPath: string, stacks: Record<string, unknown>): void {
+  writeFileSync(
+    join(outputPath, "manifest.json"),
+    JSON.stringify({ version: "0.0.0", outdir: outputPath, hclOutput: false, stacks }),
+  );
+}
+
+describe("readStackManifests", () => {
+  let outputPath: string;
+
+  beforeEach(() => {
+    outputPath = mkdtempSync(join(tmpdir(), "tfts.manifest."));
+  });
+
+  afterEach(() => {
+    rmSync(outputPath, { recursive: true, force: true });
+  });
+
+  test("reads stacks and their dependencies from the manifest", () => {
+    writeManifest(outputPath, {
+      app: stackEntry(outputPath, "app", ["network"]),
+      network: stackEntry(outputPath, "network", []),
+    });
+
+    const stacks = readStackManifests(outputPath);
+
+    expect(stacks.map((stack) => stack.name)).toEqual(["app", "network"]);
+    expect(stackDependencies(stacks)).toEqual({ app: ["network"], network: [] });
+  });
+
+  test("fails when the manifest is missing", () => {
+    expect(() => readStackManifests(outputPath)).toThrow(
+      `No manifest found at ${outputPath}/manifest.json. Run tfts synth to create it.`,
+    );
+  });
+
+  test("fails on a manifest written before assets were recorded", () => {
+    const { assets: _assets, ...legacy } = stackEntry(outputPath, "app", []);
+    writeManifest(outputPath, { app: legacy });
+
+    expect(() => readStackManifests(outputPath)).toThrow(
+      `Manifest ${outputPath}/manifest.json is invalid (stacks.app.assets: `,
+    );
+  });
+
+  test("deploys only stacks listed in the manifest", async () => {
+    mkdirSync(join(outputPath, "stacks", "stale"), { recursive: true });
+    writeManifest(outputPath, { app: stackEntry(outputPath, "app", []) });
+
+    expect(
+      await deploy({ cwd: outputPath, output: ".", stack: "stale", skipSynth: true }).then(
+        () => null,
+        (error: unknown) => error,
+      ),
+    ).toEqual(new Error('Stack "stale" not found. Available stacks: app'));
+  });
+});
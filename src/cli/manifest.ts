@@ -0,0 +1,102 @@
+import { existsSync, readFileSync, rmSync } from "node:fs";
+import { z } from "zod";
+import type { StackDependencies } from "./stacks.js";
+
+const ValidationReportEntrySchema = z.object({
+  constructPath: z.string(),
+  level: z.enum(["error", "warning", "info"]),
+  message: z.string(),
+});
+
+const ValidationReportSchema = z.object({
+  errors: z.array(ValidationReportEntrySchema),
+  warnings: z.array(ValidationReportEntrySchema),
+});
+
+const AnnotationSchema = z.object({
+  constructPath: z.string(),
+  level: z.enum(["info", "warning", "error"]),
+  message: z.string(),
+  stacktrace: z.array(z.string()).optional(),
+});
+
+const AssetManifestSchema = z.object({
+  constructPath: z.string(),
+  type: z.enum(["file", "directory", "archive"]),
+  sourcePath: z.string(),
+  path: z.string(),
+  assetHash: z.string(),
+});
+
+const StackManifestSchema = z.object({
+  name: z.string(),
+  constructPath: z.string(),
+  synthesizedStackPath: z.string(),
+  workingDirectory: z.string(),
+  annotations: z.array(AnnotationSchema),
+  dependencies: z.array(z.string()),
+  assets: z.array(AssetManifestSchema),
+});
+
+const ManifestSchema = z.object({
+  version: z.string(),
+  outdir: z.string(),
+  hclOutput: z.boolean(),
+  stacks: z.record(z.string(), StackManifestSchema),
+  validation: ValidationReportSchema.optional(),
+});
+
+export type SynthManifest = z.infer<typeof ManifestSchema>;
+export type StackManifest = z.infer<typeof StackManifestSchema>;
+export type Annotation = z.infer<typeof AnnotationSchema>;
+export type ValidationReportEntry = z.infer<typeof ValidationReportEntrySchema>;
+
+function manifestPath(outputPath: string): string {
+  return `${outputPath}/manifest.json`;
+}
+
+export function readManifest(outputPath: string): SynthManifest | null {
+  const path = manifestPath(outputPath);
+  if (!existsSync(path)) {
+    return null;
+  }
+  const content: unknown = JSON.parse(readFileSync(path, "utf-8"));
+  const parsed = ManifestSchema.safeParse(content);
+  return parsed.success ? parsed.data : null;
+}
+
+export function removeManifest(outputPath: string): void {
+  rmSync(manifestPath(outputPath), { force: true });
+}
+
+// Deploy and destroy select and order stacks by the manifest, so a manifest that is missing or
+// was written by an older version stops them instead of leaving the order to the file system
+export function readStackManifests(outputPath: string): readonly StackManifest[] {
+  const path = manifestPath(outputPath);
+  if (!existsSync(path)) {
+    throw new Error(`No manifest found at ${path}. Run tfts synth to create it.`);
+  }
+  let content: unknown;
+  try {
+    content = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not parse ${path}: ${reason}. Run tfts synth to recreate it.`);
+  }
+  const parsed = ManifestSchema.safeParse(content);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`);
+    throw new Error(
+      `Manifest ${path} is invalid (${issues.join("; ")}). Run tfts synth to recreate it.`,
+    );
+  }
+  return Object.values(parsed.data.stacks);
+}
+
+export function stackDependencies(stacks: readonly StackManifest[]): StackDependencies {
+  return Object.fromEntries(stacks.map((stack) => [stack.name, stack.dependencies]));
+}
+
+export function readStackDependencies(outputPath: string): StackDependencies {
+  return stackDependencies(readStackManifests(outputPath));
+}
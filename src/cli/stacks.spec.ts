@@ -0,0 +1,214 @@
+import { describe, expect, test } from "bun:test";
+import {
+  changedStacks,
+  matchStacks,
+  orderStacks,
+  parseParallelism,
+  reverseDependencies,
+  runInDependencyOrder,
+  selectStacks,
+} from "./stacks.js";
+
+const dependencies = {
+  network: [],
+  database: ["network"],
+  "app-api": ["network", "database"],
+  "app-web": ["app-api"],
+  monitoring: [],
+};
+const stacks = Object.keys(dependencies);
+
+describe("matchStacks", () => {
+  test("matches all stacks with *", () => {
+    expect(matchStacks(stacks, "*")).toEqual(stacks);
+  });
+
+  test("matches glob patterns", () => {
+    expect(matchStacks(stacks, "app-*")).toEqual(["app-api", "app-web"]);
+    expect(matchStacks(stacks, "app-?eb")).toEqual(["app-web"]);
+  });
+
+  test("treats other characters literally", () => {
+    expect(matchStacks(["a.b", "axb"], "a.b")).toEqual(["a.b"]);
+  });
+});
+
+describe("selectStacks", () => {
+  test("defaults to the only stack", () => {
+    expect(selectStacks(["only"], undefined, "deploy")).toEqual(["only"]);
+  });
+
+  test("requires a pattern when there are several stacks", () => {
+    expect(() => selectStacks(stacks, undefined, "deploy")).toThrow(
+      "Run tfts deploy <stack> with one of these stacks",
+    );
+  });
+
+  test("reports unknown stacks and empty matches", () => {
+    expect(() => selectStacks(stacks, "missing", "deploy")).toThrow('Stack "missing" not found');
+    expect(() => selectStacks(stacks, "prod-*", "deploy")).toThrow('No stacks match "prod-*"');
+  });
+});
+
+describe("orderStacks", () => {
+  test("orders dependencies first", () => {
+    expect(orderStacks(stacks, dependencies)).toEqual([
+      "network",
+      "database",
+      "app-api",
+      "app-web",
+      "monitoring",
+    ]);
+  });
+
+  test("ignores dependencies outside the selection", () => {
+    expect(orderStacks(["app-web", "app-api"], dependencies)).toEqual(["app-api", "app-web"]);
+  });
+
+  test("keeps dependencies that pass through stacks outside the selection", () => {
+    const prod = { "prod-app": ["shared-dns"], "shared-dns": ["prod-network"], "prod-network": [] };
+    expect(orderStacks(["prod-app", "prod-network"], prod)).toEqual(["prod-network", "prod-app"]);
+  });
+
+  test("throws on circular dependencies", () => {
+    expect(() => orderStacks(["a", "b"], { a: ["b"], b: ["a"] })).toThrow(
+      "Circular dependency between stacks: a -> b -> a",
+    );
+  });
+
+  test("reverses dependencies for destroy", () => {
+    const reversed = reverseDependencies(stacks, dependencies);
+    expect(orderStacks(stacks, reversed)).toEqual([
+      "app-web",
+      "app-api",
+      "database",
+      "network",
+      "monitoring",
+    ]);
+  });
+});
+
+describe("parseParallelism", () => {
+  test("defaults to one stack at a time", () => {
+    expect(parseParallelism(undefined, false)).toBe(1);
+  });
+
+  test("requires auto-approve for parallel runs", () => {
+    expect(() => parseParallelism(2, false)).toThrow("requires --auto-approve");
+    expect(parseParallelism(2, true)).toBe(2);
+  });
+
+  test("rejects invalid values", () => {
+    expect(() => parseParallelism(0, true)).toThrow("positive integer");
+  });
+});
+
+describe("runInDependencyOrder", () => {
+  const deferredRun = (): {
+    readonly started: string[];
+    readonly finish: (stack: string) => void;
+    readonly run: (stack: string) => Promise<void>;
+  } => {
+    const started: string[] = [];
+    const resolvers = new Map<string, () => void>();
+    return {
+      started,
+      finish: (stack): void => {
+        resolvers.get(stack)?.();
+      },
+      run: async (stack): Promise<void> => {
+        started.push(stack);
+        await new Promise<void>((resolve) => {
+          resolvers.set(stack, resolve);
+        });
+      },
+    };
+  };
+
+  const tick = async (): Promise<void> => {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  };
+
+  test("runs stacks sequentially by default", async () => {
+    const order: string[] = [];
+    await runInDependencyOrder(stacks, dependencies, 1, async (stack) => {
+      order.push(stack);
+      await tick();
+    });
+    expect(order).toEqual(["network", "database", "app-api", "app-web", "monitoring"]);
+  });
+
+  test("runs independent stacks in parallel up to the limit", async () => {
+    const { started, finish, run } = deferredRun();
+    const done = runInDependencyOrder(stacks, dependencies, 2, run);
+
+    await tick();
+    expect(started).toEqual(["network", "monitoring"]);
+
+    finish("network");
+    await tick();
+    expect(started).toEqual(["network", "monitoring", "database"]);
+
+    finish("monitoring");
+    finish("database");
+    await tick();
+    expect(started).toEqual(["network", "monitoring", "database", "app-api"]);
+
+    finish("app-api");
+    await tick();
+    finish("app-web");
+    await done;
+    expect(started).toHaveLength(5);
+  });
+
+  test("stops scheduling after a failure", async () => {
+    const order: string[] = [];
+    const result = runInDependencyOrder(stacks, dependencies, 1, async (stack) => {
+      order.push(stack);
+      await tick();
+      if (stack === "database") {
+        throw new Error("terraform apply failed for stack database");
+      }
+    });
+
+    expect(
+      await result.then(
+        () => null,
+        (error: unknown) => error,
+      ),
+    ).toEqual(new Error("terraform apply failed for stack database"));
+    expect(order).toEqual(["network", "database"]);
+  });
+
+  test("treats a rejection without a reason as a failure", async () => {
+    const order: string[] = [];
+    const result = runInDependencyOrder(stacks, dependencies, 1, async (stack) => {
+      order.push(stack);
+      await tick();
+      if (stack === "network") {
+        return Promise.reject(undefined);
+      }
+    });
+
+    expect(
+      await result.then(
+        () => null,
+        (error: unknown) => error,
+      ),
+    ).toEqual(new Error("Stack network failed: undefined"));
+    expect(order).toEqual(["network"]);
+  });
+});
+
+describe("changedStacks", () => {
+  test("returns new stacks and stacks whose configuration differs", () => {
+    const previous = { network: "{}", database: '{"a":1}', removed: "{}" };
+    const current = { network: "{}", database: '{"a":2}', monitoring: "{}" };
+
+    expect(changedStacks(previous, current)).toEqual(["database", "monitoring"]);
+  });
+
+  test("returns nothing when the configuration is unchanged", () => {
+    expect(changedStacks({ network: "{}" }, { network: "{}" })).toEqual([]);
+  });
+});
@@ -0,0 +1,194 @@
+export type StackDependencies = Readonly<Record<string, readonly string[]>>;
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("")
+    .map((char) => {
+      if (char === "*") {
+        return ".*";
+      }
+      if (char === "?") {
+        return ".";
+      }
+      return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}$`);
+}
+
+export function matchStacks(stacks: readonly string[], pattern: string): readonly string[] {
+  const regex = globToRegExp(pattern);
+  return stacks.filter((stack) => regex.test(stack));
+}
+
+// Stacks outside the selection are assumed to be deployed already, but selected stacks they
+// depend on, directly or through them, still come first
+function selectedDependencies(
+  stack: string,
+  selected: ReadonlySet<string>,
+  dependencies: StackDependencies,
+): readonly string[] {
+  const found = new Set<string>();
+  const seen = new Set<string>();
+  const walk = (current: string): void => {
+    for (const dep of dependencies[current] ?? []) {
+      if (seen.has(dep)) {
+        continue;
+      }
+      seen.add(dep);
+      if (selected.has(dep)) {
+        found.add(dep);
+      } else {
+        walk(dep);
+      }
+    }
+  };
+  walk(stack);
+  return [...found];
+}
+
+export function orderStacks(
+  stacks: readonly string[],
+  dependencies: StackDependencies,
+): readonly string[] {
+  const selected = new Set(stacks);
+  const ordered: string[] = [];
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+
+  const visit = (stack: string, trail: readonly string[]): void => {
+    if (visited.has(stack)) {
+      return;
+    }
+    if (visiting.has(stack)) {
+      throw new Error(`Circular dependency between stacks: ${[...trail, stack].join(" -> ")}`);
+    }
+    visiting.add(stack);
+    for (const dep of selectedDependencies(stack, selected, dependencies)) {
+      visit(dep, [...trail, stack]);
+    }
+    visiting.delete(stack);
+    visited.add(stack);
+    ordered.push(stack);
+  };
+
+  for (const stack of stacks) {
+    visit(stack, []);
+  }
+  return ordered;
+}
+
+export function reverseDependencies(
+  stacks: readonly string[],
+  dependencies: StackDependencies,
+): StackDependencies {
+  const selected = new Set(stacks);
+  return Object.fromEntries(
+    stacks.map((stack) => [
+      stack,
+      stacks.filter((other) => selectedDependencies(other, selected, dependencies).includes(stack)),
+    ]),
+  );
+}
+
+type StackResult = {
+  readonly stack: string;
+  readonly failed: boolean;
+  readonly error?: unknown;
+};
+
+export async function runInDependencyOrder(
+  stacks: readonly string[],
+  dependencies: StackDependencies,
+  parallelism: number,
+  run: (stack: string) => Promise<void>,
+): Promise<void> {
+  const selected = new Set(stacks);
+  const pending = [...orderStacks(stacks, dependencies)];
+  const done = new Set<string>();
+  const running = new Map<string, Promise<StackResult>>();
+  let failure: StackResult | undefined;
+
+  const isReady = (stack: string): boolean =>
+    selectedDependencies(stack, selected, dependencies).every((dep) => done.has(dep));
+
+  while (pending.length > 0 || running.size > 0) {
+    if (failure === undefined) {
+      for (const stack of pending.filter(isReady)) {
+        if (running.size >= parallelism) {
+          break;
+        }
+        pending.splice(pending.indexOf(stack), 1);
+        running.set(
+          stack,
+          run(stack).then(
+            (): StackResult => ({ stack, failed: false }),
+            (error: unknown): StackResult => ({ stack, failed: true, error }),
+          ),
+        );
+      }
+    }
+
+    if (running.size === 0) {
+      break;
+    }
+
+    const result = await Promise.race(running.values());
+    running.delete(result.stack);
+    if (result.failed) {
+      failure ??= result;
+    } else {
+      done.add(result.stack);
+    }
+  }
+
+  if (failure !== undefined) {
+    throw failure.error instanceof Error
+      ? failure.error
+      : new Error(`Stack ${failure.stack} failed: ${String(failure.error)}`);
+  }
+}
+
+export function selectStacks(
+  stacks: readonly string[],
+  pattern: string | undefined,
+  commandName: string,
+): readonly string[] {
+  if (pattern === undefined) {
+    if (stacks.length === 1) {
+      return stacks;
+    }
+    throw new Error(
+      `Found more than one stack, please specify a target stack. Run tfts ${commandName} <stack> with one of these stacks, or '*' for all of them: ${stacks.join(", ")}`,
+    );
+  }
+
+  const matched = matchStacks(stacks, pattern);
+  if (matched.length === 0) {
+    const reason = /[*?]/.test(pattern)
+      ? `No stacks match "${pattern}"`
+      : `Stack "${pattern}" not found`;
+    throw new Error(`${reason}. Available stacks: ${stacks.join(", ")}`);
+  }
+  return matched;
+}
+
+export function parseParallelism(value: number | undefined, autoApprove: boolean): number {
+  const parallelism = value ?? 1;
+  if (!Number.isInteger(parallelism) || parallelism < 1) {
+    throw new Error(`Parallelism must be a positive integer, got ${String(value)}`);
+  }
+  // Interactive approval prompts from concurrent terraform processes would interleave
+  if (parallelism > 1 && !autoApprove) {
+    throw new Error("Running stacks in parallel requires --auto-approve");
+  }
+  return parallelism;
+}
+
+// Stacks whose synthesized configuration is new or differs from the previous synth
+export function changedStacks(
+  previous: Readonly<Record<string, string>>,
+  current: Readonly<Record<string, string>>,
+): readonly string[] {
+  return Object.keys(current).filter((stack) => previous[stack] !== current[stack]);
+}
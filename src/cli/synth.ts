@@ -1,12 +1,25 @@
 import { spawn } from "node:child_process";
 import { findConfig, readConfig } from "./config.js";
+import {
+  type Annotation,
+  readManifest,
+  removeManifest,
+  type ValidationReportEntry,
+} from "./manifest.js";
 
 export type SynthOptions = {
   app?: string;
   output?: string;
   cwd?: string;
+  strict?: boolean;
+  env?: Record<string, string>;
+  // Sends progress messages and the app's own output to stderr, keeping stdout free for a
+  // command that prints its result there
+  logToStderr?: boolean;
 };
 
+type Log = (message?: string) => void;
+
 export async function synth(options: SynthOptions = {}): Promise<void> {
   const cwd = options.cwd ?? process.cwd();
 
@@ -25,17 +38,26 @@ export async function synth(options: SynthOptions = {}): Promise<void> {
     throw new Error("No app command specified");
   }
 
-  console.log(`Synthesizing Terraform configuration...`);
-  console.log(`  App: ${appCommand}`);
-  console.log(`  Output: ${outputDir}`);
+  const logToStderr = options.logToStderr === true;
+  const log: Log = logToStderr
+    ? (message = ""): void => console.error(message)
+    : (message = ""): void => console.log(message);
+
+  log(`Synthesizing Terraform configuration...`);
+  log(`  App: ${appCommand}`);
+  log(`  Output: ${outputDir}`);
+
+  const outputPath = `${cwd}/${outputDir}`;
+  const env = { ...process.env, ...options.env, CDKTF_OUTDIR: outputPath };
 
-  const env = { ...process.env, CDKTF_OUTDIR: `${cwd}/${outputDir}` };
+  // A manifest left over from an earlier run would otherwise be reported as this run's result
+  removeManifest(outputPath);
 
   const exitCode = await new Promise<number>((resolve, reject) => {
     const proc = spawn("sh", ["-c", appCommand], {
       cwd,
       env,
-      stdio: "inherit",
+      stdio: logToStderr ? ["inherit", process.stderr, "inherit"] : "inherit",
     });
     proc.on("close", (code) => {
       resolve(code ?? 1);
@@ -43,9 +65,67 @@ export async function synth(options: SynthOptions = {}): Promise<void> {
     proc.on("error", reject);
   });
 
+  const manifest = readManifest(outputPath);
+  const validation = manifest?.validation;
+  if (validation !== undefined) {
+    printValidationEntries(log, "Validation errors", validation.errors);
+    printValidationEntries(log, "Validation warnings", validation.warnings);
+  }
+
+  const annotations = Object.values(manifest?.stacks ?? {}).flatMap((stack) => stack.annotations);
+  const annotationErrors = annotations.filter((a) => a.level === "error");
+  const annotationWarnings = annotations.filter((a) => a.level === "warning");
+  printAnnotations(log, "Errors", annotationErrors);
+  printAnnotations(log, "Warnings", annotationWarnings);
+  printAnnotations(
+    log,
+    "Info",
+    annotations.filter((a) => a.level === "info"),
+  );
+
+  if (validation !== undefined && validation.errors.length > 0) {
+    throw new Error(
+      `Synthesis failed with ${String(validation.errors.length)} validation error(s)`,
+    );
+  }
+
+  if (annotationErrors.length > 0) {
+    throw new Error(`Synthesis failed with ${String(annotationErrors.length)} error annotation(s)`);
+  }
+
   if (exitCode !== 0) {
     throw new Error(`App command failed with exit code ${String(exitCode)}`);
   }
 
-  console.log(`\nSynthesis complete. Output written to ${outputDir}/`);
+  const warningCount = annotationWarnings.length + (validation?.warnings.length ?? 0);
+  if (options.strict === true && warningCount > 0) {
+    throw new Error(`Synthesis failed in strict mode with ${String(warningCount)} warning(s)`);
+  }
+
+  log(`\nSynthesis complete. Output written to ${outputDir}/`);
+}
+
+function printValidationEntries(
+  log: Log,
+  title: string,
+  entries: readonly ValidationReportEntry[],
+): void {
+  if (entries.length === 0) {
+    return;
+  }
+  log(`\n${title}:`);
+  for (const entry of entries) {
+    const path = entry.constructPath === "" ? "app" : entry.constructPath;
+    log(`  [${entry.level}] ${path}: ${entry.message}`);
+  }
+}
+
+function printAnnotations(log: Log, title: string, annotations: readonly Annotation[]): void {
+  if (annotations.length === 0) {
+    return;
+  }
+  log(`\n${title}:`);
+  for (const annotation of annotations) {
+    log(`  [${annotation.constructPath}] ${annotation.message}`);
+  }
 }
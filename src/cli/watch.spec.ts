@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, type Mock, spyOn, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createIgnoreMatcher } from "../core/ignore.js";
+import { createWatchRun, createWatchTrigger, watchedDirectories } from "./watch.js";
+
+function writeStack(outputPath: string, name: string, config: object): void {
+  const dir = join(outputPath, "stacks", name);
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(join(dir, "cdk.tf.json"), JSON.stringify(config));
+}
+
+function writeManifest(outputPath: string, dependencies: Record<string, string[]>): void {
+  const stacks = Object.fromEntries(
+    Object.entries(dependencies).map(([name, deps]) => [
+      name,
+      {
+        name,
+        constructPath: name,
+        synthesizedStackPath: join(outputPath, "stacks", name, "cdk.tf.json"),
+        workingDirectory: join(outputPath, "stacks", name),
+        annotations: [],
+        dependencies: deps,
+        assets: [],
+      },
+    ]),
+  );
+  writeFileSync(
+    join(outputPath, "manifest.json"),
+    JSON.stringify({ version: "0.0.0", outdir: outputPath, hclOutput: false, stacks }),
+  );
+}
+
+describe("watch", () => {
+  let outputPath: string;
+  let log: Mock<typeof console.log>;
+
+  beforeEach(() => {
+    outputPath = mkdtempSync(join(tmpdir(), "tfts.watch."));
+    log = spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    log.mockRestore();
+    rmSync(outputPath, { recursive: true, force: true });
+  });
+
+  describe("createWatchRun", () => {
+    test("reports the stacks whose configuration changed since the last run", async () => {
+      writeStack(outputPath, "network", { resource: { vpc: 1 } });
+      let revision = 1;
+      const run = createWatchRun({
+        outputPath,
+        plan: false,
+        synth: async () => {
+          writeStack(outputPath, "network", { resource: { vpc: 1 } });
+          writeStack(outputPath, "app", { resource: { server: revision } });
+          await Promise.resolve();
+        },
+        diff: () => Promise.resolve(),
+      });
+
+      await run();
+      expect(log).toHaveBeenLastCalledWith("\n[watch] Changed stacks: app");
+
+      await run();
+      expect(log).toHaveBeenLastCalledWith("\n[watch] No stack configuration changed");
+
+      revision = 2;
+      await run();
+      expect(log).toHaveBeenLastCalledWith("\n[watch] Changed stacks: app");
+    });
+
+    test("plans changed stacks in dependency order and reports failures", async () => {
+      const planned: string[] = [];
+      const run = createWatchRun({
+        outputPath,
+        plan: true,
+        synth: async () => {
+          writeStack(outputPath, "app", { resource: { server: 1 } });
+          writeStack(outputPath, "network", { resource: { vpc: 1 } });
+          writeManifest(outputPath, { app: ["network"], network: [] });
+          await Promise.resolve();
+        },
+        diff: async (stack) => {
+          planned.push(stack);
+          await Promise.resolve();
+          if (stack === "app") {
+            throw new Error("plan exited with code 1");
+          }
+        },
+      });
+
+      await run();
+
+      expect(planned).toEqual(["network", "app"]);
+      expect(log).toHaveBeenCalledWith("\n[watch] Plan failed for 1 stack(s):");
+      expect(log).toHaveBeenLastCalledWith("  app: plan exited with code 1");
+    });
+
+    test("keeps watching when synthesis fails", async () => {
+      const run = createWatchRun({
+        outputPath,
+        plan: false,
+        synth: () => Promise.reject(new Error("App command failed with exit code 1")),
+        diff: () => Promise.resolve(),
+      });
+
+      await run();
+
+      expect(log).toHaveBeenLastCalledWith(
+        "\n[watch] Synthesis failed: App command failed with exit code 1",
+      );
+    });
+  });
+
+  describe("createWatchTrigger", () => {
+    test("runs once more for changes that arrive during a run", async () => {
+      let runs = 0;
+      let release = (): void => {};
+      const { trigger, idle } = createWatchTrigger(async () => {
+        runs++;
+        await new Promise<void>((resolve) => {
+          release = resolve;
+        });
+      });
+
+      trigger();
+      trigger();
+      trigger();
+      expect(runs).toBe(1);
+
+      release();
+      await Promise.resolve();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(runs).toBe(2);
+
+      release();
+      await idle();
+      expect(runs).toBe(2);
+      expect(log).toHaveBeenLastCalledWith("\n[watch] Waiting for changes...");
+    });
+  });
+
+  describe("watchedDirectories", () => {
+    test("skips ignored directories instead of watching them", () => {
+      for (const dir of [
+        "src/stacks",
+        "node_modules/pkg/lib",
+        ".git/objects",
+        "cdktf.out/stacks",
+      ]) {
+        mkdirSync(join(outputPath, dir), { recursive: true });
+      }
+      const ignored = createIgnoreMatcher(["node_modules/", ".git/", "/cdktf.out/"]);
+
+      const dirs = watchedDirectories(outputPath, (path) => ignored(path, true));
+
+      expect(dirs.sort()).toEqual(["", "src", "src/stacks"]);
+    });
+  });
+});
@@ -0,0 +1,241 @@
+import {
+  existsSync,
+  type FSWatcher,
+  readdirSync,
+  readFileSync,
+  statSync,
+  watch as watchFiles,
+} from "node:fs";
+import { createIgnoreMatcher } from "../core/ignore.js";
+import { findConfig, readConfig } from "./config.js";
+import { diff } from "./diff.js";
+import { readStackDependencies } from "./manifest.js";
+import { changedStacks, orderStacks } from "./stacks.js";
+import { synth } from "./synth.js";
+
+export type WatchOptions = {
+  app?: string;
+  output?: string;
+  cwd?: string;
+  plan?: boolean;
+  debounce?: number;
+};
+
+const DEFAULT_WATCH_PATTERNS = ["*.ts", "*.tsx", "*.js", "*.mjs", "*.cjs", "*.json"];
+const IGNORED_DIRECTORIES = ["node_modules/", ".git/", ".terraform/"];
+const DEFAULT_DEBOUNCE_MS = 300;
+
+// Synthesized configuration per stack, in whichever format the last synth wrote
+function readStackConfigurations(outputPath: string): Record<string, string> {
+  const stacksDir = `${outputPath}/stacks`;
+  if (!existsSync(stacksDir)) {
+    return {};
+  }
+  return Object.fromEntries(
+    readdirSync(stacksDir, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory())
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .flatMap((entry) => {
+        const file = ["cdk.tf.json", "main.tf"]
+          .map((name) => `${stacksDir}/${entry.name}/${name}`)
+          .find((path) => existsSync(path));
+        return file !== undefined ? [[entry.name, readFileSync(file, "utf-8")]] : [];
+      }),
+  );
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export type WatchRunOptions = {
+  outputPath: string;
+  plan: boolean;
+  synth: () => Promise<void>;
+  diff: (stack: string) => Promise<void>;
+};
+
+// One watch iteration: synthesizes, reports the stacks whose configuration changed since the
+// previous iteration and, with `plan`, plans them in dependency order
+export function createWatchRun(options: WatchRunOptions): () => Promise<void> {
+  let previous = readStackConfigurations(options.outputPath);
+
+  return async (): Promise<void> => {
+    try {
+      await options.synth();
+    } catch (error) {
+      console.log(`\n[watch] Synthesis failed: ${errorMessage(error)}`);
+      return;
+    }
+
+    const current = readStackConfigurations(options.outputPath);
+    const changed = changedStacks(previous, current);
+    previous = current;
+    if (changed.length === 0) {
+      console.log("\n[watch] No stack configuration changed");
+      return;
+    }
+    console.log(`\n[watch] Changed stacks: ${changed.join(", ")}`);
+    if (!options.plan) {
+      return;
+    }
+
+    let ordered: readonly string[];
+    try {
+      ordered = orderStacks(changed, readStackDependencies(options.outputPath));
+    } catch (error) {
+      console.log(`\n[watch] Plan skipped: ${errorMessage(error)}`);
+      return;
+    }
+
+    const failures: string[] = [];
+    for (const stack of ordered) {
+      console.log(`\n[watch] Planning ${stack}...\n`);
+      try {
+        await options.diff(stack);
+      } catch (error) {
+        failures.push(`  ${stack}: ${errorMessage(error)}`);
+      }
+    }
+    if (failures.length > 0) {
+      console.log(`\n[watch] Plan failed for ${String(failures.length)} stack(s):`);
+      console.log(failures.join("\n"));
+    }
+  };
+}
+
+export type WatchTrigger = {
+  trigger: () => void;
+  // Resolves once no run is in progress and none is pending
+  idle: () => Promise<void>;
+};
+
+// Changes that arrive while a run is in progress trigger exactly one more run afterwards
+export function createWatchTrigger(run: () => Promise<void>): WatchTrigger {
+  let running: Promise<void> | null = null;
+  let pending = false;
+
+  const trigger = (): void => {
+    if (running !== null) {
+      pending = true;
+      return;
+    }
+    running = run().finally(() => {
+      running = null;
+      console.log("\n[watch] Waiting for changes...");
+      if (pending) {
+        pending = false;
+        trigger();
+      }
+    });
+  };
+
+  const idle = async (): Promise<void> => {
+    while (running !== null) {
+      await running;
+    }
+  };
+
+  return { trigger, idle };
+}
+
+// Directories below `root`, relative to it and with "" for the root itself. Ignored directories
+// are not entered, so trees such as node_modules are never watched.
+export function watchedDirectories(
+  root: string,
+  isIgnoredDirectory: (path: string) => boolean,
+  dir = "",
+): string[] {
+  const subdirectories = readdirSync(dir === "" ? root : `${root}/${dir}`, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => (dir === "" ? entry.name : `${dir}/${entry.name}`))
+    .filter((path) => !isIgnoredDirectory(path));
+  return [
+    dir,
+    ...subdirectories.flatMap((path) => watchedDirectories(root, isIgnoredDirectory, path)),
+  ];
+}
+
+export async function watch(options: WatchOptions = {}): Promise<void> {
+  const cwd = options.cwd ?? process.cwd();
+  const configPath = findConfig(cwd);
+  const config = configPath !== null ? readConfig(configPath) : null;
+  const outputDir = options.output ?? config?.output ?? "cdktf.out";
+  const outputPath = `${cwd}/${outputDir}`;
+  const debounce = options.debounce ?? DEFAULT_DEBOUNCE_MS;
+  if (!Number.isInteger(debounce) || debounce < 0) {
+    throw new Error(`Debounce must be a non-negative integer, got ${String(options.debounce)}`);
+  }
+
+  // Everything under the output directory is written by synth and would retrigger it
+  const ignored = createIgnoreMatcher([...IGNORED_DIRECTORIES, `/${outputDir}/`]);
+  const watched = createIgnoreMatcher(config?.watchPattern ?? DEFAULT_WATCH_PATTERNS);
+  const isIgnoredDirectory = (path: string): boolean => ignored(path, true);
+
+  const { trigger } = createWatchTrigger(
+    createWatchRun({
+      outputPath,
+      plan: options.plan === true,
+      synth: () => synth({ app: options.app, output: outputDir, cwd }),
+      diff: (stack) => diff({ stack, output: outputDir, cwd, skipSynth: true }),
+    }),
+  );
+
+  trigger();
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const watchers = new Map<string, FSWatcher>();
+  const onChange = (path: string): void => {
+    if (!existsSync(`${cwd}/${path}`)) {
+      removeDirectory(path);
+    } else if (statSync(`${cwd}/${path}`).isDirectory()) {
+      if (!isIgnoredDirectory(path)) {
+        addDirectory(path);
+      }
+      return;
+    }
+    if (!watched(path, false)) {
+      return;
+    }
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      console.log(`\n[watch] ${path} changed`);
+      trigger();
+    }, debounce);
+  };
+  // Each directory gets its own watcher; directories created later are picked up as they appear
+  const addDirectory = (dir: string): void => {
+    for (const path of watchedDirectories(cwd, isIgnoredDirectory, dir)) {
+      if (watchers.has(path)) {
+        continue;
+      }
+      const watcher = watchFiles(path === "" ? cwd : `${cwd}/${path}`, (_event, filename) => {
+        if (filename !== null) {
+          onChange(path === "" ? filename : `${path}/${filename}`);
+        }
+      });
+      watcher.on("error", () => removeDirectory(path));
+      watchers.set(path, watcher);
+    }
+  };
+  // A removed directory takes the watchers below it along; they are added again if it returns
+  const removeDirectory = (dir: string): void => {
+    for (const [path, watcher] of watchers) {
+      if (path === dir || path.startsWith(`${dir}/`)) {
+        watcher.close();
+        watchers.delete(path);
+      }
+    }
+  };
+  addDirectory("");
+
+  await new Promise<void>((resolve) => {
+    process.once("SIGINT", () => {
+      clearTimeout(timer);
+      for (const watcher of watchers.values()) {
+        watcher.close();
+      }
+      resolve();
+    });
+  });
+}
@@ -0,0 +1,89 @@
+import { describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  cacheKey,
+  exactVersion,
+  readCachedBindings,
+  readCachedSchema,
+  satisfiesVersion,
+  writeCachedBindings,
+  writeCachedSchema,
+} from "./cache.js";
+import type { TerraformSchema } from "./schema.js";
+
+describe("cacheKey", () => {
+  test("does not depend on property order", () => {
+    expect(cacheKey({ fqn: "hashicorp/google", version: "6.8.0" })).toBe(
+      cacheKey({ version: "6.8.0", fqn: "hashicorp/google" }),
+    );
+  });
+
+  test("changes with any part", () => {
+    const base = { fqn: "hashicorp/google", version: "6.8.0", generatorVersion: "0.3.8" };
+    expect(cacheKey(base)).not.toBe(cacheKey({ ...base, version: "6.9.0" }));
+    expect(cacheKey(base)).not.toBe(cacheKey({ ...base, generatorVersion: "0.4.0" }));
+  });
+});
+
+describe("exactVersion", () => {
+  test("accepts exact pins only", () => {
+    expect(exactVersion("6.8.0")).toBe("6.8.0");
+    expect(exactVersion("= 6.8.0")).toBe("6.8.0");
+    expect(exactVersion("1.0.0-beta.1")).toBe("1.0.0-beta.1");
+    expect(exactVersion("~> 6.0")).toBeUndefined();
+    expect(exactVersion(">= 6.8.0")).toBeUndefined();
+    expect(exactVersion(undefined)).toBeUndefined();
+  });
+});
+
+describe("satisfiesVersion", () => {
+  test("checks pessimistic constraints", () => {
+    expect(satisfiesVersion("6.8.0", "~> 6.0")).toBe(true);
+    expect(satisfiesVersion("7.0.0", "~> 6.0")).toBe(false);
+    expect(satisfiesVersion("6.8.3", "~> 6.8.1")).toBe(true);
+    expect(satisfiesVersion("6.9.0", "~> 6.8.1")).toBe(false);
+  });
+
+  test("checks every part of a combined constraint", () => {
+    expect(satisfiesVersion("1.4.0", ">= 1.2, < 2.0, != 1.3.0")).toBe(true);
+    expect(satisfiesVersion("1.3.0", ">= 1.2, < 2.0, != 1.3.0")).toBe(false);
+    expect(satisfiesVersion("1.0.0", undefined)).toBe(true);
+    expect(satisfiesVersion("1.0.0", "= 1.0.0")).toBe(true);
+    expect(satisfiesVersion("1.0.0", "1.0.1")).toBe(false);
+  });
+});
+
+describe("cache entries", () => {
+  const schema: TerraformSchema = {
+    format_version: "1.0",
+    provider_schemas: {
+      "registry.terraform.io/hashicorp/test": { provider: { block: {} } },
+    },
+  };
+
+  test("round-trips schemas and generated files", () => {
+    const cacheDir = mkdtempSync(join(tmpdir(), "tfts-cache-"));
+    const key = cacheKey({ fqn: "hashicorp/test", version: "1.0.0" });
+    const files = [{ path: "providers/hashicorp/test/index.ts", content: "export {};\n" }];
+
+    expect(readCachedSchema(cacheDir, key)).toBeNull();
+    expect(readCachedBindings(cacheDir, key)).toBeNull();
+
+    writeCachedSchema(cacheDir, key, schema);
+    writeCachedBindings(cacheDir, key, files);
+
+    expect(readCachedSchema(cacheDir, key)).toEqual(schema);
+    expect(readCachedBindings(cacheDir, key)).toEqual(files);
+  });
+
+  test("treats corrupt entries as misses", () => {
+    const cacheDir = mkdtempSync(join(tmpdir(), "tfts-cache-"));
+    const key = cacheKey({ fqn: "hashicorp/test", version: "1.0.0" });
+    mkdirSync(join(cacheDir, "bindings", key.slice(0, 2)), { recursive: true });
+    writeFileSync(join(cacheDir, "bindings", key.slice(0, 2), `${key}.json`), "{truncated");
+
+    expect(readCachedBindings(cacheDir, key)).toBeNull();
+  });
+});
@@ -0,0 +1,142 @@
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { z } from "zod";
+import type { GeneratedFile } from "./generator.js";
+import { parseTerraformSchema, type TerraformSchema } from "./schema.js";
+
+export type CacheKeyParts = Readonly<Record<string, string | undefined>>;
+
+const GeneratedFilesSchema = z.array(z.object({ path: z.string(), content: z.string() }));
+
+export function defaultCacheDir(): string {
+  const base = process.env["XDG_CACHE_HOME"] ?? join(homedir(), ".cache");
+  return join(base, "tfts");
+}
+
+export function cacheKey(parts: CacheKeyParts): string {
+  const stable = Object.keys(parts)
+    .sort()
+    .map((key) => [key, parts[key] ?? null]);
+  return createHash("sha256").update(JSON.stringify(stable)).digest("hex");
+}
+
+export function hashContent(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+// Only exact pins identify a provider release before `terraform init` resolves the constraint
+export function exactVersion(version: string | undefined): string | undefined {
+  const match = version?.match(/^=?\s*(\d+\.\d+\.\d+(?:-[\w.]+)?)$/);
+  return match?.[1];
+}
+
+function versionSegments(version: string): number[] {
+  return (version.split("-")[0] ?? "").split(".").map(Number);
+}
+
+function compareVersions(a: string, b: string): number {
+  const left = versionSegments(a);
+  const right = versionSegments(b);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  // A pre-release sorts before the release it leads up to
+  const leftPre = a.includes("-") ? a.slice(a.indexOf("-")) : "~";
+  const rightPre = b.includes("-") ? b.slice(b.indexOf("-")) : "~";
+  return leftPre === rightPre ? 0 : leftPre < rightPre ? -1 : 1;
+}
+
+// Checks a version against a Terraform constraint such as "~> 6.0, != 6.1.0"
+export function satisfiesVersion(version: string, constraint: string | undefined): boolean {
+  if (constraint === undefined || constraint.trim() === "") {
+    return true;
+  }
+  return constraint.split(",").every((part) => {
+    const match = part.trim().match(/^(~>|>=|<=|!=|>|<|=)?\s*v?(\d+(?:\.\d+)*(?:-[\w.]+)?)$/);
+    if (match === null) {
+      return false;
+    }
+    const target = match[2] ?? "";
+    const comparison = compareVersions(version, target);
+    switch (match[1] ?? "=") {
+      case "~>": {
+        // "~> 1.2" allows 1.x from 1.2 on, "~> 1.2.3" allows 1.2.x from 1.2.3 on
+        const segments = versionSegments(target);
+        const bumped = segments.length === 1 ? 0 : segments.length - 2;
+        const upper = [...segments.slice(0, bumped), (segments[bumped] ?? 0) + 1].join(".");
+        return comparison >= 0 && compareVersions(version, upper) < 0;
+      }
+      case ">=":
+        return comparison >= 0;
+      case "<=":
+        return comparison <= 0;
+      case ">":
+        return comparison > 0;
+      case "<":
+        return comparison < 0;
+      case "!=":
+        return comparison !== 0;
+      default:
+        return comparison === 0;
+    }
+  });
+}
+
+function entryPath(cacheDir: string, kind: string, key: string): string {
+  return join(cacheDir, kind, key.slice(0, 2), `${key}.json`);
+}
+
+function readEntry(cacheDir: string, kind: string, key: string): unknown {
+  const path = entryPath(cacheDir, kind, key);
+  if (!existsSync(path)) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(readFileSync(path, "utf-8"));
+  } catch {
+    return undefined;
+  }
+}
+
+function writeEntry(cacheDir: string, kind: string, key: string, value: unknown): void {
+  const path = entryPath(cacheDir, kind, key);
+  mkdirSync(join(cacheDir, kind, key.slice(0, 2)), { recursive: true });
+  // Write-then-rename so an interrupted run never leaves a truncated entry behind
+  const tmpPath = `${path}.${String(process.pid)}.tmp`;
+  writeFileSync(tmpPath, JSON.stringify(value));
+  renameSync(tmpPath, path);
+}
+
+export function readCachedSchema(cacheDir: string, key: string): TerraformSchema | null {
+  const entry = readEntry(cacheDir, "schemas", key);
+  if (entry === undefined) {
+    return null;
+  }
+  try {
+    return parseTerraformSchema(entry);
+  } catch {
+    return null;
+  }
+}
+
+export function writeCachedSchema(cacheDir: string, key: string, schema: TerraformSchema): void {
+  writeEntry(cacheDir, "schemas", key, schema);
+}
+
+export function readCachedBindings(cacheDir: string, key: string): GeneratedFile[] | null {
+  const parsed = GeneratedFilesSchema.safeParse(readEntry(cacheDir, "bindings", key));
+  return parsed.success ? parsed.data : null;
+}
+
+export function writeCachedBindings(
+  cacheDir: string,
+  key: string,
+  files: readonly GeneratedFile[],
+): void {
+  writeEntry(cacheDir, "bindings", key, files);
+}
@@ -0,0 +1,76 @@
+import { execSync } from "node:child_process";
+import { mkdirSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { err, ok, Result } from "neverthrow";
+import { z } from "zod";
+import type { ModuleConstraint, ModuleFile } from "./module-schema.js";
+
+export type FetchModuleResult = {
+  readonly moduleDir: string;
+  readonly resolvedVersion: string | undefined;
+};
+
+const ModulesManifestSchema = z.object({
+  Modules: z.array(
+    z.object({
+      Key: z.string(),
+      Dir: z.string(),
+      Version: z.string().optional(),
+    }),
+  ),
+});
+
+export function readModuleFiles(moduleDir: string): ModuleFile[] {
+  return readdirSync(moduleDir, { withFileTypes: true })
+    .filter((entry) => entry.isFile() && /\.tf(\.json)?$/.test(entry.name))
+    .map((entry) => entry.name)
+    .sort()
+    .map((name) => ({
+      path: join(moduleDir, name),
+      content: readFileSync(join(moduleDir, name), "utf-8"),
+    }));
+}
+
+export function fetchModule(
+  constraint: ModuleConstraint,
+  workDir: string,
+): Result<FetchModuleResult, Error> {
+  const moduleConfig: { source: string; version?: string } = {
+    source: constraint.source,
+  };
+  if (constraint.version !== undefined) {
+    moduleConfig.version = constraint.version;
+  }
+
+  mkdirSync(workDir, { recursive: true });
+  writeFileSync(
+    `${workDir}/main.tf.json`,
+    JSON.stringify({ module: { [constraint.name]: moduleConfig } }, null, 2),
+  );
+
+  // `terraform get` only downloads modules, unlike `init` which also installs providers
+  const download = Result.fromThrowable(
+    () => {
+      execSync("terraform get -no-color", {
+        cwd: workDir,
+        stdio: "pipe",
+        maxBuffer: 100 * 1024 * 1024,
+      });
+      return ModulesManifestSchema.parse(
+        JSON.parse(readFileSync(`${workDir}/.terraform/modules/modules.json`, "utf-8")),
+      );
+    },
+    (error) =>
+      new Error(
+        `Failed to download module ${constraint.source}: ${error instanceof Error ? error.message : String(error)}`,
+      ),
+  );
+
+  return download().andThen((manifest) => {
+    const entry = manifest.Modules.find((m) => m.Key === constraint.name);
+    if (entry === undefined) {
+      return err(new Error(`Module ${constraint.source} was not downloaded`));
+    }
+    return ok({ moduleDir: join(workDir, entry.Dir), resolvedVersion: entry.Version });
+  });
+}
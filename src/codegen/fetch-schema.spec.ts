@@ -2,7 +2,7 @@ import { describe, expect, test } from "bun:test";
 import { mkdirSync, rmSync, writeFileSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
-import { parseProviderVersionFromLockFile } from "./fetch-schema.js";
+import { parseProviderVersionFromLockFile, readProviderSchemaFile } from "./fetch-schema.js";
 
 describe("parseProviderVersionFromLockFile", () => {
   const testDir = join(tmpdir(), `tfts-test-lock-${Date.now()}`);
@@ -97,3 +97,47 @@ provider "registry.terraform.io/hashicorp/google" {
     rmSync(testDir, { recursive: true, force: true });
   });
 });
+
+describe("readProviderSchemaFile", () => {
+  const testDir = join(tmpdir(), `tfts-test-schema-${Date.now()}`);
+  const schemaPath = join(testDir, "schema.json");
+
+  test("reads an exported provider schema", () => {
+    mkdirSync(testDir, { recursive: true });
+    writeFileSync(
+      schemaPath,
+      JSON.stringify({
+        format_version: "1.0",
+        provider_schemas: {
+          "registry.terraform.io/hashicorp/google": {
+            provider: { block: { attributes: { project: { type: "string", optional: true } } } },
+          },
+        },
+      }),
+    );
+
+    const result = readProviderSchemaFile(schemaPath);
+
+    expect(result._unsafeUnwrap().provider_schemas).toHaveProperty([
+      "registry.terraform.io/hashicorp/google",
+    ]);
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test("returns an error for files that are not provider schemas", () => {
+    mkdirSync(testDir, { recursive: true });
+    writeFileSync(schemaPath, JSON.stringify({ provider_schemas: [] }));
+
+    const result = readProviderSchemaFile(schemaPath);
+
+    expect(result._unsafeUnwrapErr().message).toContain(
+      `Invalid provider schema file ${schemaPath}`,
+    );
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test("returns an error for missing files", () => {
+    const result = readProviderSchemaFile(join(testDir, "missing.json"));
+    expect(result.isErr()).toBe(true);
+  });
+});
@@ -1,5 +1,6 @@
 import { execSync } from "node:child_process";
 import { mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { Result } from "neverthrow";
 import { type ProviderConstraint, parseTerraformSchema, type TerraformSchema } from "./schema.js";
 
 export type FetchSchemaResult = {
@@ -70,6 +71,17 @@ export function fetchProviderSchema(
   return { schema, resolvedVersion };
 }
 
+export function readProviderSchemaFile(schemaFile: string): Result<TerraformSchema, Error> {
+  const read = Result.fromThrowable(
+    () => parseTerraformSchema(JSON.parse(readFileSync(schemaFile, "utf-8"))),
+    (error) =>
+      new Error(
+        `Invalid provider schema file ${schemaFile}: ${error instanceof Error ? error.message : String(error)}`,
+      ),
+  );
+  return read();
+}
+
 export function cleanupWorkDir(workDir: string): void {
   rmSync(workDir, { recursive: true, force: true });
 }
@@ -87,6 +87,109 @@ describe("generateProviderBindings", () => {
     );
   });
 
+  test("generates only resources matching the allow-list", () => {
+    const result = generateProviderBindings(constraint, mockSchema, { resources: ["bucket_*"] });
+
+    const files = result._unsafeUnwrap();
+    const paths = files.map((f) => f.path);
+    expect(paths).toContain("providers/hashicorp/test/lib/bucket-object/index.ts");
+    expect(paths).not.toContain("providers/hashicorp/test/lib/instance/index.ts");
+    expect(paths).not.toContain("providers/hashicorp/test/lib/data-test-instance/index.ts");
+
+    const indexFile = files.find((f) => f.path === "providers/hashicorp/test/index.ts");
+    expect(indexFile?.content).toBe(`export * from "./lib/provider/index.js";
+export * as bucketObject from "./lib/bucket-object/index.js";
+`);
+  });
+
+  test("matches allow-list patterns with the provider prefix and separate data source lists", () => {
+    const result = generateProviderBindings(constraint, mockSchema, {
+      resources: ["test_instance"],
+      dataSources: [],
+    });
+
+    const paths = result._unsafeUnwrap().map((f) => f.path);
+    expect(paths).toContain("providers/hashicorp/test/lib/instance/index.ts");
+    expect(paths).not.toContain("providers/hashicorp/test/lib/bucket-object/index.ts");
+    expect(paths).not.toContain("providers/hashicorp/test/lib/data-test-instance/index.ts");
+  });
+
+  test("reports allow-list patterns that match nothing", () => {
+    const result = generateProviderBindings(constraint, mockSchema, {
+      resources: ["instance", "compute_*"],
+    });
+
+    expect(result._unsafeUnwrapErr().message).toBe(
+      'No resources or data sources in hashicorp/test match: "compute_*"',
+    );
+  });
+
+  test("generates ephemeral resources and write-only attributes", () => {
+    const schema: TerraformSchema = {
+      format_version: "1.0",
+      provider_schemas: {
+        "registry.terraform.io/hashicorp/test": {
+          provider: { block: {} },
+          resource_schemas: {
+            test_database: {
+              version: 0,
+              block: {
+                attributes: {
+                  name: { type: "string", required: true },
+                  password_wo: {
+                    type: "string",
+                    optional: true,
+                    sensitive: true,
+                    write_only: true,
+                    description: "Admin password.",
+                  },
+                },
+              },
+            },
+          },
+          ephemeral_resource_schemas: {
+            test_secret: {
+              version: 0,
+              block: {
+                attributes: {
+                  name: { type: "string", required: true },
+                  value: { type: "string", computed: true, sensitive: true },
+                },
+              },
+            },
+          },
+        },
+      },
+    };
+
+    const files = generateProviderBindings(constraint, schema)._unsafeUnwrap();
+
+    const ephemeralFile = files.find(
+      (f) => f.path === "providers/hashicorp/test/lib/ephemeral-test-secret/index.ts",
+    );
+    expect(ephemeralFile!.content).toContain(
+      "export class EphemeralTestSecret extends TerraformEphemeralResource",
+    );
+    expect(ephemeralFile!.content).toContain(
+      "export type EphemeralTestSecretConfig = TerraformEphemeralResourceMetaArguments & {",
+    );
+    expect(ephemeralFile!.content).toContain('return this.getStringAttribute("value");');
+
+    const index = files.find((f) => f.path === "providers/hashicorp/test/index.ts");
+    expect(index!.content).toContain(
+      'export * as ephemeralTestSecret from "./lib/ephemeral-test-secret/index.js";',
+    );
+
+    const databaseFile = files.find(
+      (f) => f.path === "providers/hashicorp/test/lib/database/index.ts",
+    );
+    expect(databaseFile!.content).toContain(
+      "  /**\n   * Admin password.\n   *\n   * Write-only: sent to the provider but never stored in state.\n   */\n  readonly passwordWo?: string;",
+    );
+    expect(databaseFile!.content).toContain("password_wo: this._passwordWo,");
+    expect(databaseFile!.content).not.toContain("get passwordWo()");
+  });
+
   test("imports from tfts", () => {
     const result = generateProviderBindings(constraint, mockSchema);
 
@@ -134,6 +237,9 @@ describe("generateProviderBindings", () => {
     const content = resourceFile!.content;
     expect(content).toContain("export class Instance extends TerraformResource");
     expect(content).toContain('terraformResourceType: "test_instance"');
+    expect(content).toContain("lifecycle: config.lifecycle,");
+    expect(content).toContain("provisioners: config.provisioners,");
+    expect(content).toContain("connection: config.connection,");
   });
 
   test("generates data source class with Data prefix and full resource type name", () => {
@@ -149,6 +255,8 @@ describe("generateProviderBindings", () => {
 
     const content = dataFile!.content;
     expect(content).toContain("export class DataTestInstance extends TerraformDataSource");
+    expect(content).toContain("lifecycle: config.lifecycle,");
+    expect(content).not.toContain("provisioners:");
   });
 
   test("generates ComplexList for computed nested blocks", () => {
@@ -703,6 +811,75 @@ describe("generateProviderBindings", () => {
     );
   });
 
+  test("records nested block paths in generator metadata", () => {
+    const schema: TerraformSchema = {
+      format_version: "1.0",
+      provider_schemas: {
+        "registry.terraform.io/hashicorp/test": {
+          provider: { block: {} },
+          resource_schemas: {
+            test_instance: {
+              version: 0,
+              block: {
+                attributes: {
+                  name: { type: "string", required: true },
+                },
+                block_types: {
+                  boot_disk: {
+                    nesting_mode: "list",
+                    max_items: 1,
+                    block: {
+                      block_types: {
+                        initialize_params: {
+                          nesting_mode: "list",
+                          max_items: 1,
+                          block: {
+                            attributes: {
+                              image: { type: "string", optional: true },
+                            },
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            test_bucket: {
+              version: 0,
+              block: {
+                attributes: {
+                  name: { type: "string", required: true },
+                },
+              },
+            },
+          },
+        },
+      },
+    };
+
+    const result = generateProviderBindings(
+      { namespace: "hashicorp", name: "test", fqn: "hashicorp/test", version: "1.0.0" },
+      schema,
+    );
+
+    expect(result.isOk()).toBe(true);
+    const files = result._unsafeUnwrap();
+
+    const instanceFile = files.find(
+      (f) => f.path === "providers/hashicorp/test/lib/instance/index.ts",
+    );
+    expect(instanceFile!.content).toContain(
+      'blockTypes: ["boot_disk", "boot_disk.initialize_params"],',
+    );
+
+    expect(instanceFile!.content).toContain('attributes: ["name", "boot_disk"],');
+
+    const bucketFile = files.find((f) => f.path === "providers/hashicorp/test/lib/bucket/index.ts");
+    expect(bucketFile!.content).not.toContain("blockTypes");
+    expect(bucketFile!.content).toContain('attributes: ["name"],');
+  });
+
   test("generates nested block interfaces for provider", () => {
     const schema: TerraformSchema = {
       format_version: "1.0",
@@ -792,4 +969,68 @@ describe("generateProviderBindings", () => {
     expect(content).not.toContain("get kind():");
     expect(content).not.toContain("get node():");
   });
+
+  test("emits JSDoc from schema descriptions and deprecation flags", () => {
+    const schema: TerraformSchema = {
+      format_version: "1.0",
+      provider_schemas: {
+        "registry.terraform.io/hashicorp/test": {
+          provider: { block: { description: "Configures the test provider." } },
+          resource_schemas: {
+            test_instance: {
+              version: 0,
+              block: {
+                description: "Manages a test instance.",
+                attributes: {
+                  name: { type: "string", required: true, description: "Name of the instance." },
+                  zone: {
+                    type: "string",
+                    optional: true,
+                    description: "Use `location` instead. Ends with */ here.",
+                    deprecated: true,
+                  },
+                },
+                block_types: {
+                  network: {
+                    nesting_mode: "list",
+                    block: {
+                      description: "Network settings.",
+                      attributes: {
+                        subnet: { type: "string", optional: true, deprecated: true },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    };
+
+    const files = generateProviderBindings(
+      { namespace: "hashicorp", name: "test", fqn: "hashicorp/test", version: "1.0.0" },
+      schema,
+    )._unsafeUnwrap();
+
+    const providerFile = files.find(
+      (f) => f.path === "providers/hashicorp/test/lib/provider/index.ts",
+    );
+    expect(providerFile!.content).toContain(
+      "/** Configures the test provider. */\nexport class TestProvider",
+    );
+
+    const content = files.find(
+      (f) => f.path === "providers/hashicorp/test/lib/instance/index.ts",
+    )!.content;
+    expect(content).toContain("/** Manages a test instance. */\nexport class Instance");
+    expect(content).toContain("  /** Name of the instance. */\n  readonly name: string;");
+    expect(content).toContain(
+      "  /**\n   * Use `location` instead. Ends with *\\/ here.\n   *\n   * @deprecated\n   */\n  readonly zone?: string;",
+    );
+    expect(content).toContain("  /** Name of the instance. */\n  get name(): string");
+    expect(content).toContain("   * @deprecated\n   */\n  get zone(): string");
+    expect(content).toContain("  /** Network settings. */\n  readonly network?:");
+    expect(content).toContain("  /** @deprecated */\n  readonly subnet?: string;");
+  });
 });
@@ -10,6 +10,7 @@ import type {
 import {
   attributeTypeToTS,
   blockToInterfaceName,
+  docComment,
   generateBlockInterface,
   safeCamelName,
   toPascalCase,
@@ -28,7 +29,7 @@ type AttributeType =
   | ["list", AttributeType]
   | ["set", AttributeType]
   | ["map", AttributeType]
-  | ["object", Record<string, AttributeType>]
+  | ["object", Record<string, AttributeType>, string[]?]
   | ["tuple", AttributeType[]];
 
 function isComputedListOfObjects(attr: {
@@ -60,38 +61,174 @@ function extractObjectFieldsFromListType(
   return inner[1];
 }
 
+function collectBlockPaths(block: Block, prefix: string = ""): string[] {
+  return Object.entries(block.block_types ?? {}).flatMap(([name, blockType]) => {
+    const path = prefix ? `${prefix}.${name}` : name;
+    return [path, ...collectBlockPaths(blockType.block, path)];
+  });
+}
+
+function generateBlockTypesLine(block: Block | undefined): string {
+  const paths = block !== undefined ? collectBlockPaths(block) : [];
+  if (paths.length === 0) {
+    return "";
+  }
+  return `\n        blockTypes: [${paths.map((p) => `"${p}"`).join(", ")}],`;
+}
+
+// Names a reference may start with; checked at synth time when reference validation is enabled
+function generateAttributesLine(block: Block): string {
+  const names = [...Object.keys(block.attributes ?? {}), ...Object.keys(block.block_types ?? {})];
+  return `\n        attributes: [${names.map((n) => `"${n}"`).join(", ")}],`;
+}
+
 export type GeneratedFile = {
   path: string;
   content: string;
 };
 
+export type GenerateOptions = {
+  // Glob patterns such as "compute_*", matched with or without the provider prefix
+  readonly resources?: readonly string[];
+  // Defaults to the resources patterns when omitted
+  readonly dataSources?: readonly string[];
+};
+
+type ElementClassKind = "resource" | "data-source" | "ephemeral-resource";
+
+type ElementClassStyle = {
+  readonly baseClass: string;
+  readonly metaArguments: string;
+  // Data sources and ephemeral resources keep the provider name in their class name
+  readonly classPrefix: string | null;
+};
+
+const ELEMENT_CLASS_STYLES: Record<ElementClassKind, ElementClassStyle> = {
+  resource: {
+    baseClass: "TerraformResource",
+    metaArguments: "TerraformMetaArguments",
+    classPrefix: null,
+  },
+  "data-source": {
+    baseClass: "TerraformDataSource",
+    metaArguments: "TerraformDataSourceMetaArguments",
+    classPrefix: "data",
+  },
+  "ephemeral-resource": {
+    baseClass: "TerraformEphemeralResource",
+    metaArguments: "TerraformEphemeralResourceMetaArguments",
+    classPrefix: "ephemeral",
+  },
+};
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}$`);
+}
+
+type SelectedSchemas = {
+  readonly schemas: Record<string, ResourceSchema> | undefined;
+  readonly matchedPatterns: readonly string[];
+};
+
+function selectSchemas(
+  constraint: ProviderConstraint,
+  schemas: Record<string, ResourceSchema> | undefined,
+  patterns: readonly string[] | undefined,
+): SelectedSchemas {
+  if (patterns === undefined || schemas === undefined) {
+    return { schemas, matchedPatterns: [] };
+  }
+
+  const prefix = `${constraint.name}_`;
+  const matches = patterns.map((pattern) => {
+    const regex = globToRegExp(pattern);
+    return Object.keys(schemas).filter(
+      (type) =>
+        regex.test(type) || (type.startsWith(prefix) && regex.test(type.slice(prefix.length))),
+    );
+  });
+
+  const selected = new Set(matches.flat());
+  return {
+    schemas: Object.fromEntries(Object.entries(schemas).filter(([type]) => selected.has(type))),
+    matchedPatterns: patterns.filter((_, i) => (matches[i]?.length ?? 0) > 0),
+  };
+}
+
 export function generateProviderBindings(
   constraint: ProviderConstraint,
   schema: TerraformSchema,
+  options: GenerateOptions = {},
 ): Result<GeneratedFile[], Error> {
   const providerFqn = `registry.terraform.io/${constraint.fqn}`;
-  const providerSchema = schema.provider_schemas?.[providerFqn];
+  const fullSchema = schema.provider_schemas?.[providerFqn];
 
-  if (providerSchema === undefined) {
+  if (fullSchema === undefined) {
     const available = Object.keys(schema.provider_schemas ?? {});
     return err(
       new Error(`Provider schema not found for ${providerFqn}. Available: ${available.join(", ")}`),
     );
   }
 
+  const dataSourcePatterns = options.dataSources ?? options.resources;
+  const resources = selectSchemas(constraint, fullSchema.resource_schemas, options.resources);
+  const dataSources = selectSchemas(constraint, fullSchema.data_source_schemas, dataSourcePatterns);
+  // Ephemeral resources follow the resources patterns
+  const ephemeralResources = selectSchemas(
+    constraint,
+    fullSchema.ephemeral_resource_schemas,
+    options.resources,
+  );
+
+  // A pattern matching nothing is almost always a typo that would silently drop a class
+  const matched = new Set([
+    ...resources.matchedPatterns,
+    ...dataSources.matchedPatterns,
+    ...ephemeralResources.matchedPatterns,
+  ]);
+  const unmatched = [
+    ...new Set([...(options.resources ?? []), ...(dataSourcePatterns ?? [])]),
+  ].filter((pattern) => !matched.has(pattern));
+  if (unmatched.length > 0) {
+    return err(
+      new Error(
+        `No resources or data sources in ${constraint.fqn} match: ${unmatched.map((p) => `"${p}"`).join(", ")}`,
+      ),
+    );
+  }
+
+  const providerSchema: ProviderSchema = {
+    ...fullSchema,
+    resource_schemas: resources.schemas,
+    data_source_schemas: dataSources.schemas,
+    ephemeral_resource_schemas: ephemeralResources.schemas,
+  };
+
   const resourceFiles = Object.entries(providerSchema.resource_schemas ?? {}).map(
     ([resourceType, resourceSchema]) =>
-      generateResourceClass(constraint, resourceType, resourceSchema, false),
+      generateResourceClass(constraint, resourceType, resourceSchema, "resource"),
   );
 
   const dataSourceFiles = Object.entries(providerSchema.data_source_schemas ?? {}).map(
-    ([dataType, dataSchema]) => generateResourceClass(constraint, dataType, dataSchema, true),
+    ([dataType, dataSchema]) =>
+      generateResourceClass(constraint, dataType, dataSchema, "data-source"),
+  );
+
+  const ephemeralResourceFiles = Object.entries(
+    providerSchema.ephemeral_resource_schemas ?? {},
+  ).map(([ephemeralType, ephemeralSchema]) =>
+    generateResourceClass(constraint, ephemeralType, ephemeralSchema, "ephemeral-resource"),
   );
 
   return ok([
     generateProviderClass(constraint, providerSchema),
     ...resourceFiles,
     ...dataSourceFiles,
+    ...ephemeralResourceFiles,
     generateIndexFile(constraint, providerSchema),
     generatePackageJson(constraint),
   ]);
@@ -114,6 +251,7 @@ function generateProviderClass(
     constraint.version !== "latest" &&
     constraint.version !== "";
   const versionLine = hasVersion ? `\n        providerVersion: "${constraint.version}",` : "";
+  const blockTypesLine = generateBlockTypesLine(block);
 
   const content = `import { TerraformProvider } from "tfts";
 import type { Construct } from "tfts";
@@ -125,7 +263,7 @@ export type ${configName} = {
 ${configProps}
 };
 
-export class ${className} extends TerraformProvider {
+${docComment(block ?? {}, "")}export class ${className} extends TerraformProvider {
   static readonly tfResourceType = "${constraint.name}";
 
 ${privateFields}
@@ -134,7 +272,7 @@ ${privateFields}
     super(scope, id, {
       terraformResourceType: "${constraint.name}",
       terraformGeneratorMetadata: {
-        providerName: "${constraint.name}",${versionLine}
+        providerName: "${constraint.name}",${versionLine}${blockTypesLine}
       },
       terraformProviderSource: "${constraint.fqn}",
       alias: config.alias,
@@ -160,12 +298,14 @@ function generateResourceClass(
   constraint: ProviderConstraint,
   resourceType: string,
   schema: ResourceSchema,
-  isDataSource: boolean,
+  kind: ElementClassKind,
 ): GeneratedFile {
+  const style = ELEMENT_CLASS_STYLES[kind];
   const shortName = resourceType.replace(`${constraint.name}_`, "");
-  const className = isDataSource ? toPascalCase(resourceType) : toPascalCase(shortName);
-  const prefix = isDataSource ? "Data" : "";
-  const fullClassName = `${prefix}${className}`;
+  const fullClassName =
+    style.classPrefix !== null
+      ? `${toPascalCase(style.classPrefix)}${toPascalCase(resourceType)}`
+      : toPascalCase(shortName);
   const configName = `${fullClassName}Config`;
   const configProps = generateConfigProperties(schema.block, fullClassName);
   const nestedInterfaces = generateNestedInterfaces(schema.block, fullClassName);
@@ -173,8 +313,7 @@ function generateResourceClass(
   const complexClasses = generateComplexClasses(schema.block, fullClassName);
   const hasComplexClasses = complexClasses.length > 0;
 
-  const baseClass = isDataSource ? "TerraformDataSource" : "TerraformResource";
-  const baseImport = isDataSource ? "TerraformDataSource" : "TerraformResource";
+  const { baseClass, metaArguments } = style;
   const complexImports = hasComplexClasses ? ", ComplexList, ComplexObject" : "";
 
   const { privateFields, assignments, synthesizeBody, configGetters } = generateConfigStorage(
@@ -185,11 +324,8 @@ function generateResourceClass(
   const computedBlockGetters = generateComputedBlockGetters(schema.block, fullClassName);
 
   const complexTypeImports = hasComplexClasses ? ", IInterpolatingParent" : "";
-  const metaArgsImport = isDataSource
-    ? "TerraformDataSourceMetaArguments"
-    : "TerraformMetaArguments";
-  const content = `import { ${baseImport}${complexImports} } from "tfts";
-import type { Construct${complexTypeImports}, ${metaArgsImport}, IResolvable } from "tfts";
+  const content = `import { ${baseClass}${complexImports} } from "tfts";
+import type { Construct${complexTypeImports}, ${metaArguments}, IResolvable } from "tfts";
 
 ${nestedInterfaces}
 
@@ -197,11 +333,11 @@ ${toTerraformFunctions}
 
 ${complexClasses}
 
-export type ${configName} = ${metaArgsImport} & {
+export type ${configName} = ${metaArguments} & {
 ${configProps}
 };
 
-export class ${fullClassName} extends ${baseClass} {
+${docComment(schema.block, "")}export class ${fullClassName} extends ${baseClass} {
   static readonly tfResourceType = "${resourceType}";
 
 ${privateFields}
@@ -210,12 +346,13 @@ ${privateFields}
     super(scope, id, {
       terraformResourceType: "${resourceType}",
       terraformGeneratorMetadata: {
-        providerName: "${constraint.name}",
+        providerName: "${constraint.name}",${generateBlockTypesLine(schema.block)}${generateAttributesLine(schema.block)}
       },
       dependsOn: config.dependsOn,
       count: config.count,
-      provider: config.provider,${isDataSource ? "" : "\n      lifecycle: config.lifecycle,"}
-      forEach: config.forEach,
+      provider: config.provider,
+      lifecycle: config.lifecycle,
+      forEach: config.forEach,${kind === "resource" ? "\n      provisioners: config.provisioners,\n      connection: config.connection," : ""}
     });
 ${assignments}
   }
@@ -235,7 +372,7 @@ ${synthesizeBody}
 `;
 
   const kebabName = shortName.replace(/_/g, "-");
-  const pathPrefix = isDataSource ? `data-${constraint.name}-` : "";
+  const pathPrefix = style.classPrefix !== null ? `${style.classPrefix}-${constraint.name}-` : "";
   return {
     path: `providers/${constraint.namespace}/${constraint.name}/lib/${pathPrefix}${kebabName}/index.ts`,
     content,
@@ -474,7 +611,7 @@ function generateConfigStorage(
         field: `  private ${fieldName}?: ${tsType};`,
         assign: `    this.${fieldName} = config.${camelPropName};`,
         synth: `      ${name}: this.${fieldName},`,
-        getter: generateConfigGetter(name, camelPropName, tsType),
+        getter: generateConfigGetter(name, camelPropName, tsType, attr),
       };
     });
 
@@ -517,29 +654,33 @@ function generateConfigGetter(
   attrName: string,
   safePropName: string,
   tsType: string,
+  attr: Attribute,
 ): string | undefined {
-  if (isReservedGetterName(safePropName)) {
+  // Write-only values are never stored, so a reference to them would always be null
+  if (isReservedGetterName(safePropName) || attr.write_only === true) {
     return undefined;
   }
 
+  const doc = docComment(attr, "  ");
+
   const stringTypes = new Set(["string", "string | undefined"]);
   const numberTypes = new Set(["number", "number | undefined"]);
   const booleanTypes = new Set(["boolean", "boolean | undefined"]);
 
   if (stringTypes.has(tsType)) {
-    return `  get ${safePropName}(): string {
+    return `${doc}  get ${safePropName}(): string {
     return this.getStringAttribute("${attrName}");
   }`;
   }
 
   if (numberTypes.has(tsType)) {
-    return `  get ${safePropName}(): number {
+    return `${doc}  get ${safePropName}(): number {
     return this.getNumberAttribute("${attrName}");
   }`;
   }
 
   if (booleanTypes.has(tsType)) {
-    return `  get ${safePropName}(): IResolvable {
+    return `${doc}  get ${safePropName}(): IResolvable {
     return this.getBooleanAttribute("${attrName}");
   }`;
   }
@@ -558,7 +699,7 @@ function generateComputedGetters(block: Block | undefined): string {
 
       const camelPropName = safeCamelName(name);
       const tsType = attributeTypeToTS(attr.type);
-      const getter = generateGetterForType(name, camelPropName, tsType);
+      const getter = generateGetterForType(name, camelPropName, tsType, attr);
       return getter !== undefined ? [getter] : [];
     })
     .join("\n\n");
@@ -568,41 +709,44 @@ function generateGetterForType(
   attrName: string,
   safePropName: string,
   tsType: string,
+  attr: Attribute,
 ): string | undefined {
   if (isReservedGetterName(safePropName)) {
     return undefined;
   }
 
+  const doc = docComment(attr, "  ");
+
   const stringTypes = new Set(["string", "string | undefined"]);
   const numberTypes = new Set(["number", "number | undefined"]);
   const booleanTypes = new Set(["boolean", "boolean | undefined"]);
 
   if (stringTypes.has(tsType)) {
-    return `  get ${safePropName}(): string {
+    return `${doc}  get ${safePropName}(): string {
     return this.getStringAttribute("${attrName}");
   }`;
   }
 
   if (numberTypes.has(tsType)) {
-    return `  get ${safePropName}(): number {
+    return `${doc}  get ${safePropName}(): number {
     return this.getNumberAttribute("${attrName}");
   }`;
   }
 
   if (booleanTypes.has(tsType)) {
-    return `  get ${safePropName}(): IResolvable {
+    return `${doc}  get ${safePropName}(): IResolvable {
     return this.getBooleanAttribute("${attrName}");
   }`;
   }
 
   if (tsType.endsWith("[]")) {
-    return `  get ${safePropName}(): string[] {
+    return `${doc}  get ${safePropName}(): string[] {
     return this.getListAttribute("${attrName}");
   }`;
   }
 
   if (tsType.startsWith("Record<string,")) {
-    return `  get ${safePropName}(): Record<string, string> {
+    return `${doc}  get ${safePropName}(): Record<string, string> {
     return this.getStringMapAttribute("${attrName}");
   }`;
   }
@@ -619,7 +763,9 @@ function generateConfigProperties(block: Block | undefined, resourcePrefix: stri
     const tsType = attributeTypeToTS(attr.type);
     const isOptional = attr.required !== true || attr.optional === true || attr.computed === true;
     const optionalMark = isOptional ? "?" : "";
-    return [`  readonly ${safeCamelName(name)}${optionalMark}: ${tsType};`];
+    return [
+      `${docComment(attr, "  ")}  readonly ${safeCamelName(name)}${optionalMark}: ${tsType};`,
+    ];
   });
 
   const blockLines = Object.entries(block.block_types ?? {}).map(([name, blockType]) => {
@@ -629,7 +775,7 @@ function generateConfigProperties(block: Block | undefined, resourcePrefix: stri
     const isOptional = (blockType.min_items ?? 0) === 0;
     const optionalMark = isOptional ? "?" : "";
     const tsType = isArray ? `${fullTypeName}[]` : fullTypeName;
-    return `  readonly ${safeCamelName(name)}${optionalMark}: ${tsType};`;
+    return `${docComment(blockType.block, "  ")}  readonly ${safeCamelName(name)}${optionalMark}: ${tsType};`;
   });
 
   return [...attrLines, ...blockLines].join("\n");
@@ -719,7 +865,21 @@ function generateIndexFile(constraint: ProviderConstraint, schema: ProviderSchem
     return `export * as ${camelName} from "./lib/data-${constraint.name}-${kebabName}/index.js";`;
   });
 
-  const exports = [`export * from "./lib/provider/index.js";`, ...resourceExports, ...dataExports];
+  const ephemeralExports = Object.keys(schema.ephemeral_resource_schemas ?? {}).map(
+    (ephemeralType) => {
+      const shortName = ephemeralType.replace(`${constraint.name}_`, "");
+      const kebabName = shortName.replace(/_/g, "-");
+      const camelName = `ephemeral${toPascalCase(constraint.name)}${toPascalCase(shortName)}`;
+      return `export * as ${camelName} from "./lib/ephemeral-${constraint.name}-${kebabName}/index.js";`;
+    },
+  );
+
+  const exports = [
+    `export * from "./lib/provider/index.js";`,
+    ...resourceExports,
+    ...dataExports,
+    ...ephemeralExports,
+  ];
 
   return {
     path: `providers/${constraint.namespace}/${constraint.name}/index.ts`,
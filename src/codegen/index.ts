@@ -1,4 +1,8 @@
+export * from "./cache.js";
+export * from "./fetch-module.js";
 export * from "./fetch-schema.js";
 export * from "./generator.js";
+export * from "./module-generator.js";
+export * from "./module-schema.js";
 export * from "./schema.js";
 export * from "./type-mapper.js";
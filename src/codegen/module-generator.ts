@@ -0,0 +1,81 @@
+import type { GeneratedFile } from "./generator.js";
+import type { ModuleConstraint, ModuleSchema, ModuleVariable } from "./module-schema.js";
+import { attributeTypeToTS, docComment, safeCamelName, toPascalCase } from "./type-mapper.js";
+
+// Config keys taken by TerraformModule options; module variables with these names get a suffix
+const RESERVED_CONFIG_KEYS = new Set(["providers", "dependsOn", "forEach"]);
+
+function variablePropertyName(name: string): string {
+  const camel = safeCamelName(name);
+  return RESERVED_CONFIG_KEYS.has(camel) ? `${camel}Variable` : camel;
+}
+
+// Variable values are passed to the module as they are, so object attributes keep their
+// Terraform names instead of being camelCased
+function objectAttributeKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+function variableProperty(variable: ModuleVariable): string {
+  const optionalMark = variable.required ? "" : "?";
+  const tsType = attributeTypeToTS(variable.type, objectAttributeKey);
+  return `${docComment(variable, "  ")}  readonly ${variablePropertyName(variable.name)}${optionalMark}: ${tsType};`;
+}
+
+export function generateModuleBindings(
+  constraint: ModuleConstraint,
+  schema: ModuleSchema,
+): GeneratedFile {
+  const className = `${toPascalCase(constraint.name.replace(/[^A-Za-z0-9]+/g, "_"))}Module`;
+  const configName = `${className}Config`;
+  const hasRequired = schema.variables.some((v) => v.required);
+
+  const configProps = schema.variables.map(variableProperty).join("\n");
+  const variableAssignments = schema.variables
+    .map((v) => `        ${JSON.stringify(v.name)}: config.${variablePropertyName(v.name)},`)
+    .join("\n");
+  const outputGetters = schema.outputs
+    .map(
+      (o) => `${docComment(o, "  ")}  get ${safeCamelName(o.name)}Output(): string {
+    return this.getString(${JSON.stringify(o.name)});
+  }`,
+    )
+    .join("\n\n");
+
+  const versionLine =
+    constraint.version !== undefined
+      ? `\n      version: ${JSON.stringify(constraint.version)},`
+      : "";
+
+  const content = `import { TerraformHclModule } from "tfts";
+import type { Construct, TerraformModuleProvider, TerraformProvider } from "tfts";
+
+export type ${configName} = {
+  readonly providers?: (TerraformProvider | TerraformModuleProvider)[];
+  readonly dependsOn?: string[];
+  readonly forEach?: unknown;
+${configProps}
+};
+
+export class ${className} extends TerraformHclModule {
+  constructor(scope: Construct, id: string, config: ${configName}${hasRequired ? "" : " = {}"}) {
+    super(scope, id, {
+      source: ${JSON.stringify(constraint.source)},${versionLine}
+      providers: config.providers,
+      dependsOn: config.dependsOn,
+      forEach: config.forEach,
+      variables: {
+${variableAssignments}
+      },
+    });
+  }
+
+${outputGetters}
+}
+`;
+
+  return {
+    path: `${constraint.path}/index.ts`,
+    content,
+  };
+}
@@ -0,0 +1,276 @@
+import { describe, expect, test } from "bun:test";
+import { generateModuleBindings } from "./module-generator.js";
+import { parseModuleConstraint, parseModuleFiles, parseTypeExpression } from "./module-schema.js";
+
+const variablesTf = `
+# Network settings
+variable "network_name" {
+  description = "The name of the network"
+  type        = string
+}
+
+variable "subnets" {
+  type = list(object({
+    name   = string
+    cidr   = string
+    public = optional(bool, false)
+  }))
+  default = []
+}
+
+variable "labels" {
+  type     = map(string)
+  default  = { env = "dev" } // inline comment
+  nullable = false
+}
+
+variable "db_password" {
+  type      = string
+  sensitive = true
+
+  validation {
+    condition     = length(var.db_password) > 8
+    error_message = "Password is too short."
+  }
+}
+
+variable "settings" {}
+`;
+
+const outputsTf = `
+output "network_id" {
+  description = <<-EOT
+    The ID of the network
+    created by this module
+  EOT
+  value       = google_compute_network.main.id
+}
+
+output "subnet_ids" {
+  value = { for s in google_compute_subnetwork.main : s.name => s.id }
+}
+`;
+
+describe("parseModuleConstraint", () => {
+  test("parses registry modules with versions", () => {
+    expect(parseModuleConstraint("terraform-google-modules/network/google@9.0.0")).toEqual({
+      name: "network",
+      source: "terraform-google-modules/network/google",
+      version: "9.0.0",
+      local: false,
+      path: "modules/terraform-google-modules/network/google",
+    });
+  });
+
+  test("parses local module paths", () => {
+    expect(parseModuleConstraint("./modules/vpc/")).toEqual({
+      name: "vpc",
+      source: "./modules/vpc/",
+      local: true,
+      path: "modules/local/modules/vpc",
+    });
+  });
+
+  test("keeps local modules with the same directory name apart", () => {
+    expect(parseModuleConstraint("./a/network")?.path).toBe("modules/local/a/network");
+    expect(parseModuleConstraint("./b/network")?.path).toBe("modules/local/b/network");
+    expect(parseModuleConstraint("../shared/network")?.path).toBe(
+      "modules/local/_parent/shared/network",
+    );
+  });
+
+  test("rejects invalid specs", () => {
+    expect(parseModuleConstraint("network")).toBeNull();
+  });
+});
+
+describe("parseTypeExpression", () => {
+  test("parses primitive and collection types", () => {
+    expect(parseTypeExpression("string")).toBe("string");
+    expect(parseTypeExpression("any")).toBe("dynamic");
+    expect(parseTypeExpression("set(number)")).toEqual(["set", "number"]);
+    expect(parseTypeExpression("map(list(bool))")).toEqual(["map", ["list", "bool"]]);
+    expect(parseTypeExpression("tuple([string, number])")).toEqual(["tuple", ["string", "number"]]);
+  });
+
+  test("parses objects with optional attributes and defaults", () => {
+    expect(
+      parseTypeExpression('object({ name = string, tags = optional(map(string), { a = "b" }) })'),
+    ).toEqual(["object", { name: "string", tags: ["map", "string"] }, ["tags"]]);
+  });
+
+  test("falls back to dynamic for unknown types", () => {
+    expect(parseTypeExpression("list(whatever)")).toBe("dynamic");
+  });
+});
+
+describe("parseModuleFiles", () => {
+  test("reads variables and outputs from HCL", () => {
+    const result = parseModuleFiles([
+      { path: "variables.tf", content: variablesTf },
+      { path: "outputs.tf", content: outputsTf },
+    ]);
+
+    expect(result._unsafeUnwrap()).toEqual({
+      variables: [
+        { name: "db_password", type: "string", required: true, sensitive: true },
+        { name: "labels", type: ["map", "string"], required: false, sensitive: false },
+        {
+          name: "network_name",
+          type: "string",
+          description: "The name of the network",
+          required: true,
+          sensitive: false,
+        },
+        { name: "settings", type: "dynamic", required: true, sensitive: false },
+        {
+          name: "subnets",
+          type: [
+            "list",
+            ["object", { name: "string", cidr: "string", public: "bool" }, ["public"]],
+          ],
+          required: false,
+          sensitive: false,
+        },
+      ],
+      outputs: [
+        {
+          name: "network_id",
+          description: "The ID of the network\ncreated by this module",
+          sensitive: false,
+        },
+        { name: "subnet_ids", sensitive: false },
+      ],
+    });
+  });
+
+  test("reads variables and outputs from .tf.json", () => {
+    const result = parseModuleFiles([
+      {
+        path: "main.tf.json",
+        content: JSON.stringify({
+          variable: { region: { type: "string", default: null, description: "Region" } },
+          output: { url: { value: "${google_storage_bucket.b.url}", sensitive: true } },
+        }),
+      },
+    ]);
+
+    expect(result._unsafeUnwrap()).toEqual({
+      variables: [
+        {
+          name: "region",
+          type: "string",
+          description: "Region",
+          required: false,
+          sensitive: false,
+        },
+      ],
+      outputs: [{ name: "url", sensitive: true }],
+    });
+  });
+
+  test("returns an error for malformed .tf.json", () => {
+    const result = parseModuleFiles([{ path: "main.tf.json", content: "{" }]);
+    expect(result.isErr()).toBe(true);
+  });
+});
+
+describe("generateModuleBindings", () => {
+  const constraint = {
+    name: "network",
+    source: "terraform-google-modules/network/google",
+    version: "9.0.0",
+    local: false,
+    path: "modules/terraform-google-modules/network/google",
+  };
+
+  test("generates a TerraformHclModule subclass with typed config and outputs", () => {
+    const schema = parseModuleFiles([
+      { path: "variables.tf", content: variablesTf },
+      { path: "outputs.tf", content: outputsTf },
+    ])._unsafeUnwrap();
+
+    const file = generateModuleBindings(constraint, schema);
+
+    expect(file.path).toBe("modules/terraform-google-modules/network/google/index.ts");
+    expect(file.content).toContain('import { TerraformHclModule } from "tfts";');
+    expect(file.content).not.toContain("facade");
+    expect(file.content).toContain("export class NetworkModule extends TerraformHclModule {");
+    expect(file.content).toContain(
+      "  /** The name of the network */\n  readonly networkName: string;",
+    );
+    expect(file.content).toContain("  readonly labels?: Record<string, string>;");
+    expect(file.content).toContain(
+      "  readonly subnets?: { name: string; cidr: string; public?: boolean }[];",
+    );
+    expect(file.content).toContain('        "network_name": config.networkName,');
+    expect(file.content).toContain('      version: "9.0.0",');
+    expect(file.content).toContain(`  get networkIdOutput(): string {
+    return this.getString("network_id");
+  }`);
+    expect(file.content).toContain("config: NetworkModuleConfig) {");
+  });
+
+  test("makes config optional when no variable is required", () => {
+    const file = generateModuleBindings(
+      {
+        name: "my.module",
+        source: "../../../modules/my.module",
+        local: true,
+        path: "modules/my.module",
+      },
+      {
+        variables: [{ name: "for_each", type: "string", required: false, sensitive: false }],
+        outputs: [],
+      },
+    );
+
+    expect(file.content).toContain("export class MyModuleModule extends TerraformHclModule {");
+    expect(file.content).toContain("config: MyModuleModuleConfig = {}");
+    expect(file.content).toContain("  readonly forEachVariable?: string;");
+    expect(file.content).not.toContain("version:");
+  });
+
+  test("quotes variable names that are not identifiers", () => {
+    const file = generateModuleBindings(constraint, {
+      variables: [{ name: "instance-count", type: "number", required: true, sensitive: false }],
+      outputs: [],
+    });
+
+    expect(file.content).toContain("  readonly instanceCount: number;");
+    expect(file.content).toContain('        "instance-count": config.instanceCount,');
+  });
+
+  test("keeps Terraform attribute names in object variable types", () => {
+    const file = generateModuleBindings(constraint, {
+      variables: [
+        {
+          name: "network_config",
+          type: [
+            "object",
+            { subnet_ids: ["list", "string"], "nat-gateway": "bool" },
+            ["nat-gateway"],
+          ],
+          required: true,
+          sensitive: false,
+        },
+      ],
+      outputs: [],
+    });
+
+    expect(file.content).toContain(
+      '  readonly networkConfig: { subnet_ids: string[]; "nat-gateway"?: boolean };',
+    );
+    expect(file.content).toContain('        "network_config": config.networkConfig,');
+  });
+
+  test("escapes the module source and version", () => {
+    const file = generateModuleBindings(
+      { ...constraint, source: 'git::https://example.com/"quoted".git', version: "~> 1.0" },
+      { variables: [], outputs: [] },
+    );
+
+    expect(file.content).toContain('      source: "git::https://example.com/\\"quoted\\".git",');
+    expect(file.content).toContain('      version: "~> 1.0",');
+  });
+});
@@ -0,0 +1,484 @@
+import { err, ok, type Result } from "neverthrow";
+import { z } from "zod";
+import type { AttributeType } from "./schema.js";
+
+export type ModuleVariable = {
+  name: string;
+  type: AttributeType;
+  description?: string;
+  required: boolean;
+  sensitive: boolean;
+};
+
+export type ModuleOutput = {
+  name: string;
+  description?: string;
+  sensitive: boolean;
+};
+
+export type ModuleSchema = {
+  variables: ModuleVariable[];
+  outputs: ModuleOutput[];
+};
+
+export type ModuleFile = {
+  path: string;
+  content: string;
+};
+
+export type ModuleConstraint = {
+  name: string;
+  source: string;
+  version?: string;
+  local: boolean;
+  path: string;
+};
+
+// The whole source is kept so `./a/network` and `./b/network` get separate bindings. The
+// `local` prefix keeps them apart from registry modules, and `..` segments become `_parent`.
+function localModulePath(spec: string): string {
+  const segments = spec
+    .split("/")
+    .filter((segment) => segment !== "" && segment !== ".")
+    .map((segment) => (segment === ".." ? "_parent" : segment));
+  return `modules/local/${segments.join("/")}`;
+}
+
+export function parseModuleConstraint(spec: string): ModuleConstraint | null {
+  if (spec.startsWith("./") || spec.startsWith("../") || spec.startsWith("/")) {
+    const name = spec.replace(/\/+$/, "").split("/").pop() ?? "";
+    if (name === "" || name === "." || name === "..") {
+      return null;
+    }
+    return { name, source: spec, local: true, path: localModulePath(spec) };
+  }
+
+  const atIndex = spec.indexOf("@");
+  const fullName = atIndex === -1 ? spec : spec.slice(0, atIndex);
+  const version = atIndex === -1 ? undefined : spec.slice(atIndex + 1);
+  const [namespace, name, provider] = fullName.split("/");
+  if (namespace === undefined || name === undefined || provider === undefined) {
+    return null;
+  }
+
+  return {
+    name,
+    source: `${namespace}/${name}/${provider}`,
+    version: version === "latest" ? undefined : version,
+    local: false,
+    path: `modules/${namespace}/${name}/${provider}`,
+  };
+}
+
+export function parseModuleFiles(files: readonly ModuleFile[]): Result<ModuleSchema, Error> {
+  const bodies: HclBody[] = [];
+  for (const file of files) {
+    const body = file.path.endsWith(".tf.json") ? jsonToBody(file) : ok(parseHclBody(file.content));
+    if (body.isErr()) {
+      return err(body.error);
+    }
+    bodies.push(body.value);
+  }
+
+  const blocks = bodies.flatMap((body) => body.blocks);
+  const byName = (a: { name: string }, b: { name: string }): number => a.name.localeCompare(b.name);
+
+  const variables = blocks
+    .filter((block) => block.type === "variable")
+    .map((block): ModuleVariable => {
+      const description = stringLiteral(block.body.attributes["description"]);
+      return {
+        name: block.labels[0] ?? "",
+        type: parseTypeExpression(block.body.attributes["type"] ?? "any"),
+        ...(description !== undefined ? { description } : {}),
+        required: block.body.attributes["default"] === undefined,
+        sensitive: block.body.attributes["sensitive"] === "true",
+      };
+    })
+    .sort(byName);
+
+  const outputs = blocks
+    .filter((block) => block.type === "output")
+    .map((block): ModuleOutput => {
+      const description = stringLiteral(block.body.attributes["description"]);
+      return {
+        name: block.labels[0] ?? "",
+        ...(description !== undefined ? { description } : {}),
+        sensitive: block.body.attributes["sensitive"] === "true",
+      };
+    })
+    .sort(byName);
+
+  return ok({ variables, outputs });
+}
+
+// Only the subset of HCL needed to read variable and output declarations:
+// attribute values are kept as raw expression text and never evaluated.
+
+type HclBlock = {
+  readonly type: string;
+  readonly labels: readonly string[];
+  readonly body: HclBody;
+};
+
+type HclBody = {
+  readonly attributes: Readonly<Record<string, string>>;
+  readonly blocks: readonly HclBlock[];
+};
+
+type Cursor = {
+  readonly text: string;
+  pos: number;
+};
+
+export function parseHclBody(text: string): HclBody {
+  return readBody({ text, pos: 0 });
+}
+
+function readBody(c: Cursor): HclBody {
+  const attributes: Record<string, string> = {};
+  const blocks: HclBlock[] = [];
+
+  for (;;) {
+    skipTrivia(c, true);
+    if (c.pos >= c.text.length || c.text[c.pos] === "}") {
+      c.pos++;
+      return { attributes, blocks };
+    }
+
+    const name = readIdentifier(c);
+    if (name === "") {
+      // Unexpected character: skip it rather than failing on syntax we do not model
+      c.pos++;
+      continue;
+    }
+
+    skipTrivia(c, false);
+    if (c.text[c.pos] === "=" && c.text[c.pos + 1] !== "=") {
+      c.pos++;
+      skipTrivia(c, false);
+      attributes[name] = readExpression(c);
+      continue;
+    }
+
+    const labels: string[] = [];
+    while (c.pos < c.text.length && c.text[c.pos] !== "{" && c.text[c.pos] !== "\n") {
+      if (c.text[c.pos] === '"') {
+        labels.push(stringLiteral(readString(c)) ?? "");
+      } else {
+        const label = readIdentifier(c);
+        if (label === "") {
+          c.pos++;
+        } else {
+          labels.push(label);
+        }
+      }
+      skipTrivia(c, false);
+    }
+    if (c.text[c.pos] === "{") {
+      c.pos++;
+      blocks.push({ type: name, labels, body: readBody(c) });
+    }
+  }
+}
+
+function readIdentifier(c: Cursor): string {
+  const match = /^[A-Za-z_][\w-]*/.exec(c.text.slice(c.pos));
+  const identifier = match?.[0] ?? "";
+  c.pos += identifier.length;
+  return identifier;
+}
+
+function skipTrivia(c: Cursor, newlines: boolean): void {
+  while (c.pos < c.text.length) {
+    const ch = c.text[c.pos];
+    if (ch === " " || ch === "\t" || ch === "\r" || (newlines && ch === "\n")) {
+      c.pos++;
+    } else if (ch === "#" || c.text.startsWith("//", c.pos)) {
+      const end = c.text.indexOf("\n", c.pos);
+      c.pos = end === -1 ? c.text.length : end;
+    } else if (c.text.startsWith("/*", c.pos)) {
+      const end = c.text.indexOf("*/", c.pos + 2);
+      c.pos = end === -1 ? c.text.length : end + 2;
+    } else {
+      return;
+    }
+  }
+}
+
+function readExpression(c: Cursor): string {
+  const start = c.pos;
+  let depth = 0;
+  while (c.pos < c.text.length) {
+    const ch = c.text[c.pos] ?? "";
+    const isComment =
+      ch === "#" || c.text.startsWith("//", c.pos) || c.text.startsWith("/*", c.pos);
+    if (depth === 0 && (ch === "\n" || isComment)) {
+      break;
+    }
+    if (isComment) {
+      skipTrivia(c, true);
+    } else if (ch === '"') {
+      readString(c);
+    } else if (c.text.startsWith("<<", c.pos)) {
+      readHeredoc(c);
+    } else if ("([{".includes(ch)) {
+      depth++;
+      c.pos++;
+    } else if (")]}".includes(ch)) {
+      if (depth === 0) {
+        break;
+      }
+      depth--;
+      c.pos++;
+    } else {
+      c.pos++;
+    }
+  }
+  return c.text.slice(start, c.pos).trim();
+}
+
+function readString(c: Cursor): string {
+  const start = c.pos;
+  c.pos++;
+  let interpolationDepth = 0;
+  while (c.pos < c.text.length) {
+    const ch = c.text[c.pos];
+    if (ch === "\\") {
+      c.pos += 2;
+    } else if (c.text.startsWith("${", c.pos) || c.text.startsWith("%{", c.pos)) {
+      interpolationDepth++;
+      c.pos += 2;
+    } else if (interpolationDepth > 0 && ch === "}") {
+      interpolationDepth--;
+      c.pos++;
+    } else if (interpolationDepth > 0 && ch === '"') {
+      readString(c);
+    } else {
+      c.pos++;
+      if (ch === '"') {
+        break;
+      }
+    }
+  }
+  return c.text.slice(start, c.pos);
+}
+
+function readHeredoc(c: Cursor): string {
+  const start = c.pos;
+  const match = /^<<-?([A-Za-z_]\w*)[^\n]*\n/.exec(c.text.slice(c.pos));
+  if (match === null) {
+    c.pos += 2;
+    return "<<";
+  }
+  const marker = match[1] ?? "";
+  c.pos += match[0].length;
+  while (c.pos < c.text.length) {
+    const end = c.text.indexOf("\n", c.pos);
+    const lineEnd = end === -1 ? c.text.length : end;
+    const line = c.text.slice(c.pos, lineEnd);
+    c.pos = lineEnd;
+    if (line.trim() === marker) {
+      break;
+    }
+    c.pos++;
+  }
+  return c.text.slice(start, c.pos);
+}
+
+function stringLiteral(expression: string | undefined): string | undefined {
+  if (expression === undefined) {
+    return undefined;
+  }
+  const heredoc = /^<<(-?)([A-Za-z_]\w*)[^\n]*\n([\s\S]*?)\n?[ \t]*\2$/.exec(expression);
+  if (heredoc !== null) {
+    const lines = (heredoc[3] ?? "").split("\n");
+    if (heredoc[1] !== "-") {
+      return lines.join("\n");
+    }
+    const indent = Math.min(
+      ...lines
+        .filter((line) => line.trim() !== "")
+        .map((line) => /^\s*/.exec(line)?.[0].length ?? 0),
+    );
+    return lines.map((line) => line.slice(indent)).join("\n");
+  }
+  if (!expression.startsWith('"') || !expression.endsWith('"') || expression.includes("${")) {
+    return undefined;
+  }
+  const parsed = z.string().safeParse(safeJsonParse(expression));
+  return parsed.success ? parsed.data : undefined;
+}
+
+function safeJsonParse(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+// Type constraints such as `list(object({ name = string, tags = optional(map(string)) }))`
+
+export function parseTypeExpression(expression: string): AttributeType {
+  const tokens =
+    expression.match(/"(?:[^"\\]|\\.)*"|[A-Za-z_][\w-]*|[()[\]{}=,:]|[^\s()[\]{}=,:]+/g) ?? [];
+  const state = { tokens, pos: 0 };
+  const type = readType(state);
+  return type ?? "dynamic";
+}
+
+type TypeTokens = {
+  readonly tokens: readonly string[];
+  pos: number;
+};
+
+function readType(state: TypeTokens): AttributeType | null {
+  const token = state.tokens[state.pos++] ?? "";
+  switch (token) {
+    case "string":
+    case "number":
+    case "bool":
+      return token;
+    case "any":
+      return "dynamic";
+    case "list":
+    case "set":
+    case "map": {
+      const inner = readWrapped(state, "(", ")", readType);
+      return inner === null ? null : [token, inner];
+    }
+    case "optional": {
+      return readWrapped(state, "(", ")", (s) => {
+        const inner = readType(s);
+        skipUntilClose(s);
+        return inner;
+      });
+    }
+    case "tuple": {
+      const items = readWrapped(state, "(", ")", (s) =>
+        readWrapped(s, "[", "]", (t) => readList(t, "]", readType)),
+      );
+      return items === null ? null : ["tuple", items];
+    }
+    case "object": {
+      const fields = readWrapped(state, "(", ")", (s) =>
+        readWrapped(s, "{", "}", (t) =>
+          readList(t, "}", (u) => {
+            const key = u.tokens[u.pos++] ?? "";
+            const separator = u.tokens[u.pos++];
+            if (separator !== "=" && separator !== ":") {
+              return null;
+            }
+            const optional = u.tokens[u.pos] === "optional";
+            const type = readType(u);
+            return type === null ? null : ([stringLiteral(key) ?? key, type, optional] as const);
+          }),
+        ),
+      );
+      return fields === null
+        ? null
+        : [
+            "object",
+            Object.fromEntries(fields.map(([key, type]) => [key, type])),
+            fields.flatMap(([key, , optional]) => (optional ? [key] : [])),
+          ];
+    }
+    default:
+      return null;
+  }
+}
+
+function readWrapped<T>(
+  state: TypeTokens,
+  open: string,
+  close: string,
+  read: (state: TypeTokens) => T | null,
+): T | null {
+  if (state.tokens[state.pos] !== open) {
+    return null;
+  }
+  state.pos++;
+  const value = read(state);
+  if (value === null || state.tokens[state.pos] !== close) {
+    return null;
+  }
+  state.pos++;
+  return value;
+}
+
+function readList<T>(
+  state: TypeTokens,
+  close: string,
+  read: (state: TypeTokens) => T | null,
+): T[] | null {
+  const items: T[] = [];
+  while (state.pos < state.tokens.length && state.tokens[state.pos] !== close) {
+    const item = read(state);
+    if (item === null) {
+      return null;
+    }
+    items.push(item);
+    if (state.tokens[state.pos] === ",") {
+      state.pos++;
+    }
+  }
+  return items;
+}
+
+// Skips the default value of `optional(type, default)` up to the closing parenthesis
+function skipUntilClose(state: TypeTokens): void {
+  let depth = 0;
+  while (state.pos < state.tokens.length) {
+    const token = state.tokens[state.pos] ?? "";
+    if (depth === 0 && token === ")") {
+      return;
+    }
+    if ("([{".includes(token)) {
+      depth++;
+    }
+    if (")]}".includes(token)) {
+      depth--;
+    }
+    state.pos++;
+  }
+}
+
+const TfJsonBlocksSchema = z.record(z.string(), z.record(z.string(), z.unknown()));
+
+const TfJsonSchema = z.object({
+  variable: TfJsonBlocksSchema.optional(),
+  output: TfJsonBlocksSchema.optional(),
+});
+
+// Converts `.tf.json` declarations into the same raw-expression form the HCL reader produces
+function jsonToBody(file: ModuleFile): Result<HclBody, Error> {
+  const parsed = TfJsonSchema.safeParse(safeJsonParse(file.content));
+  if (!parsed.success) {
+    return err(new Error(`Failed to parse ${file.path}: ${parsed.error.message}`));
+  }
+
+  const toBlocks = (type: string, entries: Record<string, Record<string, unknown>>): HclBlock[] =>
+    Object.entries(entries).map(([name, config]) => ({
+      type,
+      labels: [name],
+      body: {
+        attributes: Object.fromEntries(
+          Object.entries(config).map(([key, value]) => [
+            key,
+            // The JSON syntax stores type constraints as strings holding the expression
+            key === "type" && typeof value === "string" ? value : JSON.stringify(value),
+          ]),
+        ),
+        blocks: [],
+      },
+    }));
+
+  return ok({
+    attributes: {},
+    blocks: [
+      ...toBlocks("variable", parsed.data.variable ?? {}),
+      ...toBlocks("output", parsed.data.output ?? {}),
+    ],
+  });
+}
@@ -8,7 +8,8 @@ export type AttributeType =
   | ["list", AttributeType]
   | ["set", AttributeType]
   | ["map", AttributeType]
-  | ["object", Record<string, AttributeType>]
+  // Terraform lists the attributes an object type marks optional() as a third element
+  | ["object", Record<string, AttributeType>, string[]?]
   | ["tuple", AttributeType[]];
 
 export type Attribute = {
@@ -19,6 +20,8 @@ export type Attribute = {
   computed?: boolean;
   sensitive?: boolean;
   deprecated?: boolean;
+  // Sent to the provider on apply but never persisted to plan or state
+  write_only?: boolean;
 };
 
 export type BlockType = {
@@ -44,6 +47,7 @@ export type ProviderSchema = {
   provider?: { block: Block };
   resource_schemas?: Record<string, ResourceSchema>;
   data_source_schemas?: Record<string, ResourceSchema>;
+  ephemeral_resource_schemas?: Record<string, ResourceSchema>;
 };
 
 export type TerraformSchema = {
@@ -61,6 +65,7 @@ const AttributeTypeSchema: z.ZodType<AttributeType> = z.lazy(() =>
     z.tuple([z.literal("set"), AttributeTypeSchema]),
     z.tuple([z.literal("map"), AttributeTypeSchema]),
     z.tuple([z.literal("object"), z.record(z.string(), AttributeTypeSchema)]),
+    z.tuple([z.literal("object"), z.record(z.string(), AttributeTypeSchema), z.array(z.string())]),
     z.tuple([z.literal("tuple"), z.array(AttributeTypeSchema)]),
   ]),
 );
@@ -73,6 +78,7 @@ const AttributeSchema: z.ZodType<Attribute> = z.object({
   computed: z.boolean().optional(),
   sensitive: z.boolean().optional(),
   deprecated: z.boolean().optional(),
+  write_only: z.boolean().optional(),
 });
 
 const BlockSchema: z.ZodType<Block> = z.lazy(() =>
@@ -100,6 +106,7 @@ const ProviderSchemaSchema: z.ZodType<ProviderSchema> = z.object({
   provider: z.object({ block: BlockSchema }).optional(),
   resource_schemas: z.record(z.string(), ResourceSchemaSchema).optional(),
   data_source_schemas: z.record(z.string(), ResourceSchemaSchema).optional(),
+  ephemeral_resource_schemas: z.record(z.string(), ResourceSchemaSchema).optional(),
 });
 
 const TerraformSchemaValidator: z.ZodType<TerraformSchema> = z.object({
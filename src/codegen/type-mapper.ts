@@ -1,6 +1,11 @@
 import type { Attribute, AttributeType, Block, BlockType } from "./schema.js";
 
-export function attributeTypeToTS(type: AttributeType | undefined): string {
+// Object keys are camelCased by default; callers that pass object values to Terraform unchanged
+// (module variables) keep the attribute names with `objectKey`
+export function attributeTypeToTS(
+  type: AttributeType | undefined,
+  objectKey: (name: string) => string = safeCamelName,
+): string {
   if (type === undefined) return "unknown";
 
   if (typeof type === "string") {
@@ -16,21 +21,59 @@ export function attributeTypeToTS(type: AttributeType | undefined): string {
     }
   }
 
+  if (type[0] === "object") {
+    // Provider schemas usually omit the optional attributes; their objects stay fully optional
+    const [, fields, optionalAttributes] = type;
+    return `{ ${Object.entries(fields)
+      .map(([k, v]) => {
+        const optionalMark = optionalAttributes?.includes(k) === false ? "" : "?";
+        return `${objectKey(k)}${optionalMark}: ${attributeTypeToTS(v, objectKey)}`;
+      })
+      .join("; ")} }`;
+  }
+
   const [container, inner] = type;
 
   switch (container) {
     case "list":
     case "set":
-      return `${attributeTypeToTS(inner)}[]`;
+      return `${attributeTypeToTS(inner, objectKey)}[]`;
     case "map":
-      return `Record<string, ${attributeTypeToTS(inner)}>`;
-    case "object":
-      return `{ ${Object.entries(inner)
-        .map(([k, v]) => `${safeCamelName(k)}?: ${attributeTypeToTS(v)}`)
-        .join("; ")} }`;
+      return `Record<string, ${attributeTypeToTS(inner, objectKey)}>`;
     case "tuple":
-      return `[${inner.map(attributeTypeToTS).join(", ")}]`;
+      return `[${inner.map((element) => attributeTypeToTS(element, objectKey)).join(", ")}]`;
+  }
+}
+
+const WRITE_ONLY_NOTE = "Write-only: sent to the provider but never stored in state.";
+
+export function docComment(
+  doc: {
+    readonly description?: string;
+    readonly deprecated?: boolean;
+    readonly write_only?: boolean;
+  },
+  indent: string,
+): string {
+  const description = doc.description?.trim() ?? "";
+  // A literal "*/" in a provider description would end the comment early
+  const descriptionLines =
+    description === "" ? [] : description.replace(/\*\//g, "*\\/").split("\n");
+  const lines =
+    doc.write_only === true
+      ? [...descriptionLines, ...(descriptionLines.length > 0 ? [""] : []), WRITE_ONLY_NOTE]
+      : descriptionLines;
+  const tags = doc.deprecated === true ? ["@deprecated"] : [];
+  const body = lines.length > 0 && tags.length > 0 ? [...lines, "", ...tags] : [...lines, ...tags];
+
+  if (body.length === 0) {
+    return "";
+  }
+  if (body.length === 1) {
+    return `${indent}/** ${body[0] ?? ""} */\n`;
   }
+  const commentLines = body.map((line) => `${indent} * ${line}`.trimEnd());
+  return `${indent}/**\n${commentLines.join("\n")}\n${indent} */\n`;
 }
 
 export function attributeToConfigProperty(name: string, attr: Attribute): string {
@@ -142,12 +185,14 @@ export function generateBlockInterface(name: string, block: Block, prefix: strin
   const interfaceName = blockToInterfaceName(fullName);
   const properties = [
     ...Object.entries(block.attributes ?? {}).map(
-      ([attrName, attr]) => `  ${attributeToConfigProperty(attrName, attr)}`,
+      ([attrName, attr]) =>
+        `${docComment(attr, "  ")}  ${attributeToConfigProperty(attrName, attr)}`,
     ),
     ...Object.entries(block.block_types ?? {}).map(
-      ([blockName, blockType]) => `  ${blockToConfigProperty(blockName, blockType, fullName)}`,
+      ([blockName, blockType]) =>
+        `${docComment(blockType.block, "  ")}  ${blockToConfigProperty(blockName, blockType, fullName)}`,
     ),
   ];
 
-  return `export type ${interfaceName} = {\n${properties.join("\n")}\n};`;
+  return `${docComment(block, "")}export type ${interfaceName} = {\n${properties.join("\n")}\n};`;
 }
@@ -0,0 +1,154 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildStackGraph,
+  type DependencyGraph,
+  dependsOnAddresses,
+  renderGraph,
+  withoutDependsOn,
+} from "./graph.js";
+import { ref } from "./tokens.js";
+
+describe("graph", () => {
+  describe("dependsOnAddresses", () => {
+    test("collects depends_on entries at any depth", () => {
+      const json = {
+        resource: {
+          aws_instance: { web: { depends_on: ["aws_vpc.main"], ami: "ami-123" } },
+        },
+        data: { aws_ami: { ubuntu: { depends_on: ["aws_subnet.a", "aws_vpc.main"] } } },
+      };
+
+      expect(dependsOnAddresses(json)).toEqual(["aws_vpc.main", "aws_subnet.a", "aws_vpc.main"]);
+    });
+
+    test("unwraps resolved fqn tokens", () => {
+      const json = { data: { aws_ami: { ubuntu: { depends_on: ["${aws_vpc.main}"] } } } };
+
+      expect(dependsOnAddresses(json)).toEqual(["aws_vpc.main"]);
+    });
+  });
+
+  describe("withoutDependsOn", () => {
+    test("drops depends_on entries and keeps everything else", () => {
+      const json = {
+        resource: { aws_instance: { web: { depends_on: ["aws_vpc.main"], tags: [{ a: "b" }] } } },
+      };
+
+      expect(withoutDependsOn(json)).toEqual({
+        resource: { aws_instance: { web: { tags: [{ a: "b" }] } } },
+      });
+    });
+  });
+
+  describe("buildStackGraph", () => {
+    test("adds depends_on and reference edges between elements of the stack", () => {
+      const graph = buildStackGraph("app", [
+        { address: "aws_vpc.main", constructPath: "app/vpc", references: [], dependsOn: [] },
+        {
+          address: "aws_instance.web",
+          constructPath: "app/web",
+          references: [ref("aws_vpc.main", "id"), ref("aws_vpc.main", "arn"), ref("var.ami", "")],
+          dependsOn: ["aws_vpc.main"],
+        },
+        {
+          address: "data.aws_ami.ubuntu",
+          constructPath: "app/ubuntu",
+          references: [ref("aws_subnet.elsewhere", "id")],
+          dependsOn: [],
+        },
+      ]);
+
+      expect(graph.nodes.map((node) => node.id)).toEqual([
+        "app/aws_vpc.main",
+        "app/aws_instance.web",
+        "app/data.aws_ami.ubuntu",
+      ]);
+      expect(graph.edges).toEqual([
+        { from: "app/aws_instance.web", to: "app/aws_vpc.main", kind: "depends-on" },
+        { from: "app/aws_instance.web", to: "app/aws_vpc.main", kind: "reference" },
+      ]);
+    });
+  });
+
+  describe("renderGraph", () => {
+    const graph: DependencyGraph = {
+      nodes: [
+        {
+          id: "network",
+          kind: "stack",
+          stack: "network",
+          label: "network",
+          constructPath: "network",
+        },
+        { id: "app", kind: "stack", stack: "app", label: "app", constructPath: "app" },
+        {
+          id: "app/aws_instance.web",
+          kind: "element",
+          stack: "app",
+          label: "aws_instance.web",
+          constructPath: "app/web",
+        },
+        {
+          id: "app/aws_eip.ip",
+          kind: "element",
+          stack: "app",
+          label: "aws_eip.ip",
+          constructPath: "app/ip",
+        },
+      ],
+      edges: [
+        { from: "app", to: "network", kind: "stack" },
+        { from: "app/aws_eip.ip", to: "app/aws_instance.web", kind: "reference" },
+        { from: "app/aws_eip.ip", to: "app/aws_instance.web", kind: "depends-on" },
+      ],
+    };
+
+    test("renders DOT with a cluster per stack", () => {
+      expect(renderGraph(graph, "dot")).toBe(
+        [
+          "digraph tfts {",
+          "  rankdir=LR;",
+          "  subgraph cluster_0 {",
+          '    label="network";',
+          '    "network" [label="network", shape=folder];',
+          "  }",
+          "  subgraph cluster_1 {",
+          '    label="app";',
+          '    "app" [label="app", shape=folder];',
+          '    "app/aws_instance.web" [label="aws_instance.web"];',
+          '    "app/aws_eip.ip" [label="aws_eip.ip"];',
+          "  }",
+          '  "app" -> "network" [style=bold];',
+          '  "app/aws_eip.ip" -> "app/aws_instance.web";',
+          '  "app/aws_eip.ip" -> "app/aws_instance.web" [label="depends_on"];',
+          "}",
+          "",
+        ].join("\n"),
+      );
+    });
+
+    test("renders Mermaid with generated node ids", () => {
+      expect(renderGraph(graph, "mermaid")).toBe(
+        [
+          "flowchart LR",
+          '  subgraph s0 ["network"]',
+          '    n0[["network"]]',
+          "  end",
+          '  subgraph s1 ["app"]',
+          '    n1[["app"]]',
+          '    n2["aws_instance.web"]',
+          '    n3["aws_eip.ip"]',
+          "  end",
+          "  n1 ==> n0",
+          "  n3 --> n2",
+          "  n3 -- depends_on --> n2",
+          "",
+        ].join("\n"),
+      );
+    });
+
+    test("renders JSON", () => {
+      expect(JSON.parse(renderGraph(graph, "json"))).toEqual(graph);
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import { referencedAddress } from "./references.js";
+import type { RefToken } from "./tokens.js";
+
+export type GraphFormat = "dot" | "mermaid" | "json";
+
+export type GraphNode = {
+  // Stack name for stacks, `<stack>/<address>` for elements
+  readonly id: string;
+  readonly kind: "stack" | "element";
+  readonly stack: string;
+  readonly label: string;
+  readonly constructPath: string;
+};
+
+export type GraphEdge = {
+  // Points from the dependent node to the node it depends on
+  readonly from: string;
+  readonly to: string;
+  readonly kind: "stack" | "depends-on" | "reference";
+};
+
+export type DependencyGraph = {
+  readonly nodes: readonly GraphNode[];
+  readonly edges: readonly GraphEdge[];
+};
+
+export type GraphElement = {
+  readonly address: string;
+  readonly constructPath: string;
+  readonly references: readonly RefToken[];
+  readonly dependsOn: readonly string[];
+};
+
+export const GRAPH_FORMATS: readonly GraphFormat[] = ["dot", "mermaid", "json"];
+
+// Collects the addresses listed under every depends_on key of a resolved element; an fqn
+// token resolves to its address wrapped in an interpolation
+export function dependsOnAddresses(value: unknown): readonly string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap(dependsOnAddresses);
+  }
+  if (value === null || typeof value !== "object") {
+    return [];
+  }
+  return Object.entries(value).flatMap(([key, nested]) =>
+    key === "depends_on" && Array.isArray(nested)
+      ? nested.flatMap((item: unknown) =>
+          typeof item === "string" ? [item.replace(/^\$\{([\s\S]*)\}$/, "$1")] : [],
+        )
+      : dependsOnAddresses(nested),
+  );
+}
+
+// depends_on entries are addresses, not references, even when they are written as fqn tokens.
+// Only plain objects are rebuilt, so resolvables keep their methods
+export function withoutDependsOn(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(withoutDependsOn);
+  }
+  if (
+    value === null ||
+    typeof value !== "object" ||
+    Object.getPrototypeOf(value) !== Object.prototype
+  ) {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.entries(value).flatMap(([key, nested]) =>
+      key === "depends_on" ? [] : [[key, withoutDependsOn(nested)]],
+    ),
+  );
+}
+
+export function elementNodeId(stack: string, address: string): string {
+  return `${stack}/${address}`;
+}
+
+// Element nodes and the edges between them; references that leave the stack are dropped
+export function buildStackGraph(stack: string, elements: readonly GraphElement[]): DependencyGraph {
+  const addresses = new Set(elements.map((element) => element.address));
+  const nodes = elements.map(
+    (element): GraphNode => ({
+      id: elementNodeId(stack, element.address),
+      kind: "element",
+      stack,
+      label: element.address,
+      constructPath: element.constructPath,
+    }),
+  );
+  const edges = elements.flatMap((element) => {
+    const targets = (
+      kind: GraphEdge["kind"],
+      candidates: readonly (string | undefined)[],
+    ): GraphEdge[] =>
+      [...new Set(candidates)].flatMap((target): GraphEdge[] =>
+        target !== undefined && target !== element.address && addresses.has(target)
+          ? [
+              {
+                from: elementNodeId(stack, element.address),
+                to: elementNodeId(stack, target),
+                kind,
+              },
+            ]
+          : [],
+      );
+    return [
+      ...targets("depends-on", element.dependsOn),
+      ...targets(
+        "reference",
+        element.references.map((reference) => referencedAddress(reference.fqn)),
+      ),
+    ];
+  });
+  return { nodes, edges };
+}
+
+export function renderGraph(graph: DependencyGraph, format: GraphFormat): string {
+  switch (format) {
+    case "dot":
+      return renderDot(graph);
+    case "mermaid":
+      return renderMermaid(graph);
+    case "json":
+      return `${JSON.stringify(graph, null, 2)}\n`;
+  }
+}
+
+function stacksOf(graph: DependencyGraph): readonly string[] {
+  return [...new Set(graph.nodes.map((node) => node.stack))];
+}
+
+function quote(value: string): string {
+  return JSON.stringify(value);
+}
+
+function renderDot(graph: DependencyGraph): string {
+  const clusters = stacksOf(graph).map((stack, index) => {
+    const nodes = graph.nodes
+      .filter((node) => node.stack === stack)
+      .map((node) => {
+        const shape = node.kind === "stack" ? ", shape=folder" : "";
+        return `    ${quote(node.id)} [label=${quote(node.label)}${shape}];`;
+      });
+    return [`  subgraph cluster_${index} {`, `    label=${quote(stack)};`, ...nodes, "  }"];
+  });
+  const edges = graph.edges.map((edge) => {
+    const attributes = {
+      stack: " [style=bold]",
+      "depends-on": ' [label="depends_on"]',
+      reference: "",
+    }[edge.kind];
+    return `  ${quote(edge.from)} -> ${quote(edge.to)}${attributes};`;
+  });
+  return [`digraph tfts {`, "  rankdir=LR;", ...clusters.flat(), ...edges, "}", ""].join("\n");
+}
+
+function renderMermaid(graph: DependencyGraph): string {
+  // Mermaid ids cannot contain the dots and slashes of addresses
+  const ids = new Map(graph.nodes.map((node, index) => [node.id, `n${index}`]));
+  const idOf = (nodeId: string): string => ids.get(nodeId) ?? nodeId;
+  const subgraphs = stacksOf(graph).map((stack, index) => {
+    const nodes = graph.nodes
+      .filter((node) => node.stack === stack)
+      .map((node) => {
+        const label = quote(node.label);
+        return `    ${idOf(node.id)}${node.kind === "stack" ? `[[${label}]]` : `[${label}]`}`;
+      });
+    return [`  subgraph s${index} [${quote(stack)}]`, ...nodes, "  end"];
+  });
+  const edges = graph.edges.map((edge) => {
+    const arrow = { stack: "==>", "depends-on": "-- depends_on -->", reference: "-->" }[edge.kind];
+    return `  ${idOf(edge.from)} ${arrow} ${idOf(edge.to)}`;
+  });
+  return ["flowchart LR", ...subgraphs.flat(), ...edges, ""].join("\n");
+}
@@ -0,0 +1,283 @@
+import { describe, expect, test } from "bun:test";
+import { renderHcl } from "./hcl.js";
+
+describe("renderHcl", () => {
+  test("renders terraform block with required providers and backend", () => {
+    const hcl = renderHcl({
+      terraform: {
+        required_providers: {
+          google: { source: "hashicorp/google", version: "5.0.0" },
+        },
+        backend: {
+          gcs: { bucket: "my-state", prefix: "terraform/state" },
+        },
+      },
+    });
+
+    expect(hcl).toBe(`terraform {
+  required_providers {
+    google = {
+      source  = "hashicorp/google"
+      version = "5.0.0"
+    }
+  }
+
+  backend "gcs" {
+    bucket = "my-state"
+    prefix = "terraform/state"
+  }
+}
+`);
+  });
+
+  test("renders resources with aligned attributes and bare references", () => {
+    const hcl = renderHcl({
+      resource: {
+        google_storage_bucket: {
+          bucket: {
+            "//": { metadata: { path: "stack/bucket", uniqueId: "bucket" } },
+            name: "my-bucket",
+            location: "${var.region}",
+            labels: { env: "prod", "team-name": "infra" },
+            depends_on: ["google_project_service.storage"],
+            provider: "google.west",
+          },
+        },
+      },
+    });
+
+    expect(hcl).toBe(`resource "google_storage_bucket" "bucket" {
+  name     = "my-bucket"
+  location = var.region
+  labels = {
+    env       = "prod"
+    team-name = "infra"
+  }
+  depends_on = [google_project_service.storage]
+  provider   = google.west
+}
+`);
+  });
+
+  test("keeps partial interpolations inside quoted templates", () => {
+    const hcl = renderHcl({
+      locals: {
+        name: '${var.prefix}-"quoted"-${lookup(var.names, "key")}',
+      },
+    });
+
+    expect(hcl).toContain('name = "${var.prefix}-\\"quoted\\"-${lookup(var.names, "key")}"');
+  });
+
+  test("does not unwrap strings made of several interpolations", () => {
+    const hcl = renderHcl({ locals: { name: "${var.a}-${var.b}" } });
+    expect(hcl).toContain('name = "${var.a}-${var.b}"');
+  });
+
+  test("renders multi-line strings as heredocs", () => {
+    const hcl = renderHcl({
+      locals: { script: "#!/bin/bash\necho ${var.name}\n" },
+    });
+
+    expect(hcl).toBe(`locals {
+  script = <<-EOT
+    #!/bin/bash
+    echo \${var.name}
+  EOT
+}
+`);
+  });
+
+  test("keeps content indentation in heredocs", () => {
+    const hcl = renderHcl({
+      locals: { yaml: "  key: value\n  other: value\n" },
+    });
+
+    expect(hcl).toBe(`locals {
+  yaml = <<EOT
+  key: value
+  other: value
+EOT
+}
+`);
+  });
+
+  test("keeps list separators off heredoc delimiters", () => {
+    const hcl = renderHcl({
+      locals: { scripts: ["#!/bin/bash\necho one\n", "echo two"] },
+    });
+
+    expect(hcl).toBe(`locals {
+  scripts = [
+    <<-EOT
+      #!/bin/bash
+      echo one
+    EOT
+    ,
+    "echo two",
+  ]
+}
+`);
+  });
+
+  test("renders lists of objects as repeated blocks without hints", () => {
+    const hcl = renderHcl({
+      resource: {
+        google_compute_firewall: {
+          fw: {
+            name: "allow-ssh",
+            allow: [{ protocol: "tcp", ports: ["22"] }, { protocol: "icmp" }],
+          },
+        },
+      },
+    });
+
+    expect(hcl).toBe(`resource "google_compute_firewall" "fw" {
+  name = "allow-ssh"
+
+  allow {
+    protocol = "tcp"
+    ports    = ["22"]
+  }
+
+  allow {
+    protocol = "icmp"
+  }
+}
+`);
+  });
+
+  test("uses block hints for single nested blocks", () => {
+    const hcl = renderHcl(
+      {
+        resource: {
+          google_compute_instance: {
+            vm: {
+              name: "vm",
+              labels: { env: "dev" },
+              boot_disk: { initialize_params: { image: "debian-cloud/debian-11" } },
+            },
+          },
+        },
+      },
+      {
+        "google_compute_instance.vm": ["boot_disk", "boot_disk.initialize_params"],
+      },
+    );
+
+    expect(hcl).toBe(`resource "google_compute_instance" "vm" {
+  name = "vm"
+  labels = {
+    env = "dev"
+  }
+
+  boot_disk {
+    initialize_params {
+      image = "debian-cloud/debian-11"
+    }
+  }
+}
+`);
+  });
+
+  test("renders lifecycle meta-argument with bare references", () => {
+    const hcl = renderHcl({
+      resource: {
+        test_resource: {
+          res: {
+            name: "x",
+            lifecycle: {
+              create_before_destroy: true,
+              ignore_changes: ["tags"],
+            },
+          },
+        },
+      },
+    });
+
+    expect(hcl).toContain(`  lifecycle {
+    create_before_destroy = true
+    ignore_changes        = [tags]
+  }`);
+  });
+
+  test("renders variables with bare type constraints and validations", () => {
+    const hcl = renderHcl({
+      variable: {
+        regions: {
+          type: "list(string)",
+          default: ["us-east1"],
+          validation: [
+            {
+              condition: "${length(var.regions) > 0}",
+              error_message: "At least one region is required.",
+            },
+          ],
+        },
+      },
+    });
+
+    expect(hcl).toBe(`variable "regions" {
+  type    = list(string)
+  default = ["us-east1"]
+
+  validation {
+    condition     = length(var.regions) > 0
+    error_message = "At least one region is required."
+  }
+}
+`);
+  });
+
+  test("renders outputs, modules, moved and import blocks", () => {
+    const hcl = renderHcl({
+      module: {
+        vpc: {
+          source: "terraform-google-modules/network/google",
+          version: "9.0.0",
+          providers: { google: "google.west" },
+          network_name: "main",
+        },
+      },
+      output: {
+        bucket_url: { value: "${google_storage_bucket.bucket.url}", sensitive: true },
+      },
+      moved: [{ from: "google_storage_bucket.old", to: "google_storage_bucket.bucket" }],
+      import: [{ to: "google_storage_bucket.bucket", id: "my-bucket" }],
+    });
+
+    expect(hcl).toBe(`module "vpc" {
+  source       = "terraform-google-modules/network/google"
+  version      = "9.0.0"
+  network_name = "main"
+  providers = {
+    google = google.west
+  }
+}
+
+output "bucket_url" {
+  value     = google_storage_bucket.bucket.url
+  sensitive = true
+}
+
+moved {
+  from = google_storage_bucket.old
+  to   = google_storage_bucket.bucket
+}
+
+import {
+  to = google_storage_bucket.bucket
+  id = "my-bucket"
+}
+`);
+  });
+
+  test("omits the metadata section", () => {
+    const hcl = renderHcl({
+      "//": { metadata: { version: "0.0.0", stackName: "stack", backend: "local" } },
+      locals: { a: 1 },
+    });
+
+    expect(hcl).toBe("locals {\n  a = 1\n}\n");
+  });
+});
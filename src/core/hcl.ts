@@ -0,0 +1,658 @@
+import type { RemovedBlock, TerraformJson } from "./terraform-json.js";
+
+// Dot-separated paths of nested blocks, keyed by element address
+// (e.g. "google_compute_instance.vm" -> ["boot_disk", "boot_disk.initialize_params"])
+export type HclBlockHints = Readonly<Record<string, readonly string[]>>;
+
+type HclAttribute = {
+  readonly kind: "attribute";
+  readonly name: string;
+  readonly value: readonly string[];
+};
+
+type HclBlock = {
+  readonly kind: "block";
+  readonly type: string;
+  readonly labels: readonly string[];
+  readonly body: readonly HclItem[];
+};
+
+type HclItem = HclAttribute | HclBlock;
+
+type BodyContext = {
+  readonly blocks: ReadonlySet<string> | undefined;
+  readonly path: string;
+  readonly bareKeys: ReadonlySet<string>;
+};
+
+type TemplateSegment = {
+  readonly kind: "literal" | "interpolation" | "directive";
+  readonly text: string;
+};
+
+const INDENT = "  ";
+// Prefix for heredoc lines that enclosing bodies must not re-indent
+const VERBATIM = "\u0000";
+const MAX_INLINE_LENGTH = 80;
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+
+const RESOURCE_BARE_KEYS: ReadonlySet<string> = new Set(["depends_on", "provider"]);
+const LIFECYCLE_BARE_KEYS: ReadonlySet<string> = new Set([
+  "ignore_changes",
+  "replace_triggered_by",
+]);
+// `when` and `on_failure` take keywords (destroy, continue), not strings
+const PROVISIONER_BARE_KEYS: ReadonlySet<string> = new Set(["when", "on_failure"]);
+const DEPENDS_ON_BARE_KEYS: ReadonlySet<string> = new Set(["depends_on"]);
+const NO_BARE_KEYS: ReadonlySet<string> = new Set();
+
+export function renderHcl(json: TerraformJson, hints: HclBlockHints = {}): string {
+  const blocks: readonly HclBlock[] = [
+    ...terraformBlocks(json),
+    ...providerBlocks(json, hints),
+    ...variableBlocks(json),
+    ...localsBlocks(json),
+    ...elementBlocks("data", json.data, hints),
+    ...elementBlocks("ephemeral", json.ephemeral, hints),
+    ...elementBlocks("resource", json.resource, hints),
+    ...moduleBlocks(json),
+    ...outputBlocks(json),
+    ...checkBlocks(json, hints),
+    ...(json.moved ?? []).map((moved) => simpleBlock("moved", moved, new Set(["from", "to"]))),
+    ...(json.import ?? []).map((imp) => simpleBlock("import", imp, new Set(["to", "provider"]))),
+    ...(json.removed ?? []).map(removedBlock),
+  ];
+
+  const lines = blocks.flatMap((hclBlock, i) =>
+    (i === 0 ? [] : [""]).concat(renderBlock(hclBlock)),
+  );
+  return lines.map((line) => line.replace(VERBATIM, "")).join("\n") + "\n";
+}
+
+function terraformBlocks(json: TerraformJson): readonly HclBlock[] {
+  const terraform = json.terraform;
+  if (terraform === undefined) {
+    return [];
+  }
+
+  const body: HclItem[] = [];
+  if (terraform.required_version !== undefined) {
+    body.push(attribute("required_version", terraform.required_version));
+  }
+  if (terraform.required_providers !== undefined) {
+    body.push(block("required_providers", [], attributeBody(terraform.required_providers)));
+  }
+  for (const [type, config] of Object.entries(terraform.backend ?? {})) {
+    body.push(block("backend", [type], attributeBody(config)));
+  }
+  if (terraform.cloud !== undefined) {
+    const { workspaces, ...cloud } = terraform.cloud;
+    body.push(
+      block(
+        "cloud",
+        [],
+        [...attributeBody(cloud), block("workspaces", [], attributeBody(workspaces))],
+      ),
+    );
+  }
+
+  return [block("terraform", [], body)];
+}
+
+function providerBlocks(json: TerraformJson, hints: HclBlockHints): readonly HclBlock[] {
+  return Object.entries(json.provider ?? {}).flatMap(([type, configs]) =>
+    configs.map((config) =>
+      block(
+        "provider",
+        [type],
+        toBody(config, {
+          blocks: hintSet(hints[`provider.${type}`]),
+          path: "",
+          bareKeys: NO_BARE_KEYS,
+        }),
+      ),
+    ),
+  );
+}
+
+function variableBlocks(json: TerraformJson): readonly HclBlock[] {
+  return Object.entries(json.variable ?? {}).map(([name, variable]) => {
+    const { type, validation, ...rest } = variable;
+    return block(
+      "variable",
+      [name],
+      [
+        ...(type !== undefined ? [bareAttribute("type", type)] : []),
+        ...attributeBody(rest),
+        ...(validation ?? []).map((v) => simpleBlock("validation", v, NO_BARE_KEYS)),
+      ],
+    );
+  });
+}
+
+function localsBlocks(json: TerraformJson): readonly HclBlock[] {
+  if (json.locals === undefined || Object.keys(json.locals).length === 0) {
+    return [];
+  }
+  return [block("locals", [], attributeBody(json.locals))];
+}
+
+function elementBlocks(
+  type: "resource" | "data" | "ephemeral",
+  section: Record<string, Record<string, Record<string, unknown>>> | undefined,
+  hints: HclBlockHints,
+): readonly HclBlock[] {
+  const prefix = type === "resource" ? "" : `${type}.`;
+  return Object.entries(section ?? {}).flatMap(([resourceType, instances]) =>
+    Object.entries(instances).map(([name, config]) =>
+      block(
+        type,
+        [resourceType, name],
+        elementBody(config, hintSet(hints[`${prefix}${resourceType}.${name}`])),
+      ),
+    ),
+  );
+}
+
+function elementBody(
+  config: Record<string, unknown>,
+  blocks: ReadonlySet<string> | undefined,
+): readonly HclItem[] {
+  const { lifecycle, provisioner, connection, ...rest } = config;
+  const items: HclItem[] = [...toBody(rest, { blocks, path: "", bareKeys: RESOURCE_BARE_KEYS })];
+
+  const connectionConfig = asRecord(connection);
+  if (connectionConfig !== null) {
+    items.push(simpleBlock("connection", connectionConfig, NO_BARE_KEYS));
+  }
+
+  for (const entry of asArray(provisioner)) {
+    for (const [type, provisionerConfig] of Object.entries(asRecord(entry) ?? {})) {
+      const { connection: provisionerConnection, ...settings } = asRecord(provisionerConfig) ?? {};
+      const nestedConnection = asRecord(provisionerConnection);
+      items.push(
+        block(
+          "provisioner",
+          [type],
+          [
+            ...toBody(settings, {
+              blocks: new Set(),
+              path: "",
+              bareKeys: PROVISIONER_BARE_KEYS,
+            }),
+            ...(nestedConnection !== null
+              ? [simpleBlock("connection", nestedConnection, NO_BARE_KEYS)]
+              : []),
+          ],
+        ),
+      );
+    }
+  }
+
+  const lifecycleConfig = asRecord(lifecycle);
+  if (lifecycleConfig !== null) {
+    const { precondition, postcondition, ...settings } = lifecycleConfig;
+    items.push(
+      block(
+        "lifecycle",
+        [],
+        [
+          ...toBody(settings, { blocks: undefined, path: "", bareKeys: LIFECYCLE_BARE_KEYS }),
+          ...conditionBlocks("precondition", precondition),
+          ...conditionBlocks("postcondition", postcondition),
+        ],
+      ),
+    );
+  }
+
+  return items;
+}
+
+function dynamicBlocks(dynamic: unknown, context: BodyContext): readonly HclBlock[] {
+  return Object.entries(asRecord(dynamic) ?? {}).map(([name, spec]) => {
+    const { content, ...settings } = asRecord(spec) ?? {};
+    return block(
+      "dynamic",
+      [name],
+      [
+        ...toBody(settings, { blocks: undefined, path: "", bareKeys: new Set(["iterator"]) }),
+        block(
+          "content",
+          [],
+          toBody(asRecord(content) ?? {}, {
+            blocks: context.blocks,
+            path: joinPath(context.path, name),
+            bareKeys: NO_BARE_KEYS,
+          }),
+        ),
+      ],
+    );
+  });
+}
+
+function moduleBlocks(json: TerraformJson): readonly HclBlock[] {
+  return Object.entries(json.module ?? {}).map(([name, module]) => {
+    const { providers, ...rest } = module;
+    return block(
+      "module",
+      [name],
+      [
+        ...toBody(rest, { blocks: undefined, path: "", bareKeys: DEPENDS_ON_BARE_KEYS }),
+        ...(providers !== undefined ? [providersAttribute(providers)] : []),
+      ],
+    );
+  });
+}
+
+function providersAttribute(providers: Record<string, string>): HclAttribute {
+  const entries = Object.entries(providers).map(
+    ([key, value]): HclAttribute => ({
+      kind: "attribute",
+      name: renderKey(key),
+      value: [bareExpression(value)],
+    }),
+  );
+  return {
+    kind: "attribute",
+    name: "providers",
+    value: ["{", ...indentLines(renderAttributes(entries)), "}"],
+  };
+}
+
+function outputBlocks(json: TerraformJson): readonly HclBlock[] {
+  return Object.entries(json.output ?? {}).map(([name, output]) => {
+    const { precondition, ...rest } = output;
+    return block(
+      "output",
+      [name],
+      [
+        ...toBody(rest, { blocks: undefined, path: "", bareKeys: DEPENDS_ON_BARE_KEYS }),
+        ...conditionBlocks("precondition", precondition),
+      ],
+    );
+  });
+}
+
+function checkBlocks(json: TerraformJson, hints: HclBlockHints): readonly HclBlock[] {
+  return Object.entries(json.check ?? {}).map(([name, check]) =>
+    block(
+      "check",
+      [name],
+      [...elementBlocks("data", check.data, hints), ...conditionBlocks("assert", check.assert)],
+    ),
+  );
+}
+
+function removedBlock(removed: RemovedBlock): HclBlock {
+  const { lifecycle, ...rest } = removed;
+  return block(
+    "removed",
+    [],
+    [
+      ...toBody(rest, { blocks: new Set(), path: "", bareKeys: new Set(["from"]) }),
+      ...(lifecycle !== undefined ? [block("lifecycle", [], attributeBody(lifecycle))] : []),
+    ],
+  );
+}
+
+function conditionBlocks(type: string, conditions: unknown): readonly HclBlock[] {
+  return asArray(conditions).flatMap((condition) => {
+    const record = asRecord(condition);
+    return record !== null ? [simpleBlock(type, record, NO_BARE_KEYS)] : [];
+  });
+}
+
+function simpleBlock(type: string, config: object, bareKeys: ReadonlySet<string>): HclBlock {
+  return block(type, [], toBody(asRecord(config) ?? {}, { blocks: new Set(), path: "", bareKeys }));
+}
+
+function block(type: string, labels: readonly string[], body: readonly HclItem[]): HclBlock {
+  return { kind: "block", type, labels, body };
+}
+
+function attributeBody(config: object): readonly HclItem[] {
+  return Object.entries(config).flatMap(([name, value]) =>
+    name === "//" || value === undefined ? [] : [attribute(name, value)],
+  );
+}
+
+function toBody(config: Record<string, unknown>, context: BodyContext): readonly HclItem[] {
+  return Object.entries(config).flatMap(([name, value]): readonly HclItem[] => {
+    if (name === "//" || value === undefined) {
+      return [];
+    }
+    if (context.bareKeys.has(name)) {
+      return [bareAttribute(name, value)];
+    }
+
+    const path = joinPath(context.path, name);
+    if (name === "dynamic" && context.blocks?.has(path) !== true) {
+      return dynamicBlocks(value, context);
+    }
+
+    const nested = nestedBlockValues(value, path, context.blocks);
+    if (nested === null) {
+      return [attribute(name, value)];
+    }
+
+    const nestedContext = { blocks: context.blocks, path, bareKeys: NO_BARE_KEYS };
+    return nested.map((body) => block(name, [], toBody(body, nestedContext)));
+  });
+}
+
+function nestedBlockValues(
+  value: unknown,
+  path: string,
+  blocks: ReadonlySet<string> | undefined,
+): readonly Record<string, unknown>[] | null {
+  const list = asArray(value);
+  const records = list.flatMap((item) => {
+    const record = asRecord(item);
+    return record !== null ? [record] : [];
+  });
+  if (records.length !== list.length) {
+    return null;
+  }
+
+  if (blocks !== undefined) {
+    return blocks.has(path) ? records : null;
+  }
+
+  // Without schema hints only lists of objects become repeated blocks; a plain
+  // object is far more often a map (tags, labels) than a single nested block.
+  return Array.isArray(value) && records.length > 0 ? records : null;
+}
+
+function attribute(name: string, value: unknown): HclAttribute {
+  return { kind: "attribute", name, value: renderValue(value) };
+}
+
+function bareAttribute(name: string, value: unknown): HclAttribute {
+  const expression = Array.isArray(value)
+    ? `[${value.map(bareExpression).join(", ")}]`
+    : bareExpression(value);
+  return { kind: "attribute", name, value: [expression] };
+}
+
+function bareExpression(value: unknown): string {
+  if (typeof value !== "string") {
+    return renderValue(value).join("\n");
+  }
+  return wholeInterpolation(value) ?? value;
+}
+
+function renderValue(value: unknown): readonly string[] {
+  if (value === null || value === undefined) {
+    return ["null"];
+  }
+  if (typeof value === "string") {
+    return renderString(value);
+  }
+  if (typeof value === "number" || typeof value === "boolean") {
+    return [String(value)];
+  }
+  if (Array.isArray(value)) {
+    return renderList(value);
+  }
+  const record = asRecord(value);
+  if (record !== null) {
+    return renderObject(record);
+  }
+  return [quoteString(String(value))];
+}
+
+function renderList(list: readonly unknown[]): readonly string[] {
+  if (list.length === 0) {
+    return ["[]"];
+  }
+
+  const items = list.map(renderValue);
+  const inline = `[${items.map((lines) => lines.join("")).join(", ")}]`;
+  if (items.every((lines) => lines.length === 1) && inline.length <= MAX_INLINE_LENGTH) {
+    return [inline];
+  }
+
+  return [
+    "[",
+    ...indentLines(
+      items.flatMap((lines) =>
+        // A heredoc ends at a line holding only its delimiter, so its separator goes below it
+        isHeredoc(lines)
+          ? [...lines, ","]
+          : lines.map((line, i) => (i === lines.length - 1 ? `${line},` : line)),
+      ),
+    ),
+    "]",
+  ];
+}
+
+function isHeredoc(lines: readonly string[]): boolean {
+  return lines[0]?.startsWith("<<") === true;
+}
+
+function renderObject(record: Record<string, unknown>): readonly string[] {
+  const entries = Object.entries(record).flatMap(([key, value]): readonly HclAttribute[] =>
+    value === undefined
+      ? []
+      : [{ kind: "attribute", name: renderKey(key), value: renderValue(value) }],
+  );
+  if (entries.length === 0) {
+    return ["{}"];
+  }
+  return ["{", ...indentLines(renderAttributes(entries)), "}"];
+}
+
+function renderKey(key: string): string {
+  if (IDENTIFIER.test(key)) {
+    return key;
+  }
+  const expression = wholeInterpolation(key);
+  if (expression !== undefined) {
+    return `(${expression})`;
+  }
+  return quoteString(key);
+}
+
+function renderString(value: string): readonly string[] {
+  const expression = wholeInterpolation(value);
+  if (expression !== undefined) {
+    return [expression];
+  }
+
+  const lines = value.split("\n");
+  if (lines.length > 2 && value.endsWith("\n")) {
+    return renderHeredoc(lines.slice(0, -1));
+  }
+  return [quoteString(value)];
+}
+
+function renderHeredoc(lines: readonly string[]): readonly string[] {
+  const delimiter =
+    ["EOT", "EOF", "EOH"].find((d) => !lines.some((line) => line.trim() === d)) ?? "END_OF_TEXT";
+  const contentLines = lines.filter((line) => line.trim() !== "");
+
+  // The indented form strips the common leading whitespace, which would also
+  // eat indentation that belongs to the content itself
+  if (contentLines.every((line) => /^\s/.test(line))) {
+    return [
+      `<<${delimiter}`,
+      ...lines.map((line) => `${VERBATIM}${line}`),
+      `${VERBATIM}${delimiter}`,
+    ];
+  }
+
+  return [`<<-${delimiter}`, ...indentLines(lines), delimiter];
+}
+
+function quoteString(value: string): string {
+  const body = parseTemplate(value)
+    .map((segment) =>
+      segment.kind === "literal"
+        ? segment.text
+            .replace(/\\/g, "\\\\")
+            .replace(/"/g, '\\"')
+            .replace(/\n/g, "\\n")
+            .replace(/\r/g, "\\r")
+            .replace(/\t/g, "\\t")
+        : segment.text,
+    )
+    .join("");
+  return `"${body}"`;
+}
+
+function wholeInterpolation(value: string): string | undefined {
+  const segments = parseTemplate(value);
+  const first = segments[0];
+  if (segments.length !== 1 || first === undefined || first.kind !== "interpolation") {
+    return undefined;
+  }
+  return first.text.slice(2, -1).trim();
+}
+
+function parseTemplate(value: string): readonly TemplateSegment[] {
+  const segments: TemplateSegment[] = [];
+  let literal = "";
+  let i = 0;
+
+  while (i < value.length) {
+    const escaped = value.slice(i, i + 3);
+    if (escaped === "$${" || escaped === "%%{") {
+      literal += escaped;
+      i += 3;
+      continue;
+    }
+
+    const opener = value.slice(i, i + 2);
+    const end = opener === "${" || opener === "%{" ? findClosingBrace(value, i + 2) : -1;
+    if (end === -1) {
+      literal += value.charAt(i);
+      i += 1;
+      continue;
+    }
+
+    if (literal !== "") {
+      segments.push({ kind: "literal", text: literal });
+      literal = "";
+    }
+    segments.push({
+      kind: opener === "${" ? "interpolation" : "directive",
+      text: value.slice(i, end + 1),
+    });
+    i = end + 1;
+  }
+
+  if (literal !== "") {
+    segments.push({ kind: "literal", text: literal });
+  }
+  return segments;
+}
+
+function findClosingBrace(value: string, start: number): number {
+  let depth = 0;
+  let inString = false;
+
+  for (let i = start; i < value.length; i++) {
+    const char = value.charAt(i);
+    if (inString) {
+      if (char === "\\") {
+        i += 1;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    switch (char) {
+      case '"':
+        inString = true;
+        break;
+      case "{":
+        depth += 1;
+        break;
+      case "}":
+        if (depth === 0) {
+          return i;
+        }
+        depth -= 1;
+        break;
+      default:
+        break;
+    }
+  }
+
+  return -1;
+}
+
+function renderBlock(hclBlock: HclBlock): readonly string[] {
+  const labels = hclBlock.labels.map((label) => ` ${quoteString(label)}`).join("");
+  const header = `${hclBlock.type}${labels} {`;
+
+  if (hclBlock.body.length === 0) {
+    return [`${header}}`];
+  }
+
+  const attributes = hclBlock.body.flatMap((item) => (item.kind === "attribute" ? [item] : []));
+  const blocks = hclBlock.body.flatMap((item) => (item.kind === "block" ? [item] : []));
+  const sections = [
+    ...(attributes.length > 0 ? [renderAttributes(attributes)] : []),
+    ...blocks.map(renderBlock),
+  ];
+
+  return [
+    header,
+    ...indentLines(sections.flatMap((lines, i) => (i === 0 ? lines : ["", ...lines]))),
+    "}",
+  ];
+}
+
+// Aligns the equals signs of consecutive single-line attributes, like `terraform fmt`
+function renderAttributes(attributes: readonly HclAttribute[]): readonly string[] {
+  const groups = attributes.reduce<HclAttribute[][]>((acc, attr) => {
+    const current = acc[acc.length - 1];
+    if (current !== undefined && attr.value.length === 1 && current.every(isSingleLine)) {
+      current.push(attr);
+    } else {
+      acc.push([attr]);
+    }
+    return acc;
+  }, []);
+
+  return groups.flatMap((group) => {
+    const width = Math.max(...group.map((attr) => attr.name.length));
+    return group.flatMap((attr) => {
+      const [first = "", ...rest] = attr.value;
+      const name = isSingleLine(attr) ? attr.name.padEnd(width) : attr.name;
+      return [`${name} = ${first}`, ...rest];
+    });
+  });
+}
+
+function isSingleLine(attr: HclAttribute): boolean {
+  return attr.value.length === 1;
+}
+
+function indentLines(lines: readonly string[]): readonly string[] {
+  return lines.map((line) => (line === "" || line.startsWith(VERBATIM) ? line : INDENT + line));
+}
+
+function hintSet(paths: readonly string[] | undefined): ReadonlySet<string> | undefined {
+  return paths !== undefined ? new Set(paths) : undefined;
+}
+
+function joinPath(parent: string, name: string): string {
+  return parent === "" ? name : `${parent}.${name}`;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (value === null || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+  return Object.fromEntries(Object.entries(value));
+}
+
+function asArray(value: unknown): readonly unknown[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
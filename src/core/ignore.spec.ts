@@ -0,0 +1,59 @@
+import { describe, expect, test } from "bun:test";
+import { createIgnoreMatcher, parseIgnoreFile } from "./ignore.js";
+
+describe("ignore", () => {
+  describe("parseIgnoreFile", () => {
+    test("drops blank lines, comments and trailing whitespace", () => {
+      expect(parseIgnoreFile("# deps\nnode_modules/  \n\n*.log\r\n\\#notes\n")).toEqual([
+        "node_modules/",
+        "*.log",
+        "\\#notes",
+      ]);
+    });
+  });
+
+  describe("createIgnoreMatcher", () => {
+    test("matches patterns without a slash at any depth", () => {
+      const ignored = createIgnoreMatcher(["*.log", ".git"]);
+
+      expect(ignored("debug.log", false)).toBe(true);
+      expect(ignored("lib/debug.log", false)).toBe(true);
+      expect(ignored("lib/.git", true)).toBe(true);
+      expect(ignored("logs/debug.txt", false)).toBe(false);
+    });
+
+    test("anchors patterns with a slash to the root", () => {
+      const ignored = createIgnoreMatcher(["/build", "docs/*.md"]);
+
+      expect(ignored("build", true)).toBe(true);
+      expect(ignored("lib/build", true)).toBe(false);
+      expect(ignored("docs/readme.md", false)).toBe(true);
+      expect(ignored("docs/api/readme.md", false)).toBe(false);
+    });
+
+    test("matches directories only for patterns with a trailing slash", () => {
+      const ignored = createIgnoreMatcher(["cache/"]);
+
+      expect(ignored("cache", true)).toBe(true);
+      expect(ignored("cache", false)).toBe(false);
+    });
+
+    test("supports double stars, character classes and escapes", () => {
+      const ignored = createIgnoreMatcher(["**/test/**", "file[0-9].txt", "\\#notes"]);
+
+      expect(ignored("src/test/a.ts", false)).toBe(true);
+      expect(ignored("test/a/b.ts", false)).toBe(true);
+      expect(ignored("file1.txt", false)).toBe(true);
+      expect(ignored("filex.txt", false)).toBe(false);
+      expect(ignored("#notes", false)).toBe(true);
+    });
+
+    test("lets the last matching pattern win", () => {
+      const ignored = createIgnoreMatcher(["*.json", "!package.json", "config/package.json"]);
+
+      expect(ignored("tsconfig.json", false)).toBe(true);
+      expect(ignored("package.json", false)).toBe(false);
+      expect(ignored("config/package.json", false)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,93 @@
+// Decides whether a path, relative to the root and using forward slashes, is ignored
+export type IgnoreMatcher = (path: string, isDirectory: boolean) => boolean;
+
+type IgnoreRule = {
+  readonly regex: RegExp;
+  readonly negated: boolean;
+  readonly directoryOnly: boolean;
+};
+
+// Lines of a .gitignore-style file that hold patterns; blank lines and comments are dropped
+export function parseIgnoreFile(content: string): readonly string[] {
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.replace(/(?<!\\)\s+$/, ""))
+    .filter((line) => line !== "" && !line.startsWith("#"));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
+
+function globToRegExp(pattern: string): string {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i] ?? "";
+    switch (char) {
+      case "*": {
+        if (pattern[i + 1] !== "*") {
+          source += "[^/]*";
+          break;
+        }
+        // "**/" matches any number of directories, a trailing "**" everything below
+        const slash = pattern[i + 2] === "/";
+        source += slash ? "(?:.*/)?" : ".*";
+        i += slash ? 2 : 1;
+        break;
+      }
+      case "?":
+        source += "[^/]";
+        break;
+      case "[": {
+        const end = pattern.indexOf("]", i + 1);
+        if (end === -1) {
+          source += "\\[";
+          break;
+        }
+        const body = pattern
+          .slice(i + 1, end)
+          .replace(/^!/, "^")
+          .replace(/\\/g, "\\\\");
+        source += `[${body}]`;
+        i = end;
+        break;
+      }
+      case "\\":
+        source += escapeRegExp(pattern[i + 1] ?? "\\");
+        i += 1;
+        break;
+      default:
+        source += escapeRegExp(char);
+    }
+  }
+  return source;
+}
+
+function parseRule(line: string): IgnoreRule {
+  const negated = line.startsWith("!");
+  let pattern = negated || line.startsWith("\\!") || line.startsWith("\\#") ? line.slice(1) : line;
+  const directoryOnly = pattern.endsWith("/");
+  pattern = directoryOnly ? pattern.slice(0, -1) : pattern;
+  // Like git, a pattern without an inner slash matches at any depth; one with a slash is
+  // relative to the root
+  const anchored = pattern.includes("/");
+  pattern = pattern.startsWith("/") ? pattern.slice(1) : pattern;
+  const prefix = anchored ? "" : "(?:.*/)?";
+  return {
+    regex: new RegExp(`^${prefix}${globToRegExp(pattern)}$`),
+    negated,
+    directoryOnly,
+  };
+}
+
+// Follows .gitignore semantics: the last matching pattern wins and "!" re-includes a path.
+// Callers skip the contents of ignored directories, so files below them cannot be re-included.
+export function createIgnoreMatcher(patterns: readonly string[]): IgnoreMatcher {
+  const rules = patterns.map(parseRule);
+  return (path, isDirectory) =>
+    rules.reduce(
+      (ignored, rule) =>
+        (!rule.directoryOnly || isDirectory) && rule.regex.test(path) ? !rule.negated : ignored,
+      false,
+    );
+}
@@ -0,0 +1,96 @@
+import { describe, expect, test } from "bun:test";
+import { collectReferences, validateReferences } from "./references.js";
+import {
+  createListToken,
+  createToken,
+  createTokenRegistry,
+  fn,
+  lazy,
+  ref,
+  renderToken,
+} from "./tokens.js";
+
+describe("references", () => {
+  describe("collectReferences", () => {
+    test("collects refs from strings, function arguments and collection tokens", () => {
+      const id = ref("aws_vpc.main", "id");
+      const subnets = ref("aws_subnet.a", "ids");
+      const name = ref("data.aws_region.current", "name");
+      const registry = createTokenRegistry();
+
+      const references = collectReferences(
+        {
+          vpc: createToken(id, registry),
+          joined: renderToken(fn("join", ",", createListToken(subnets, registry))),
+          region: createToken(
+            lazy(() => name),
+            registry,
+          ),
+        },
+        registry,
+      );
+
+      expect(references).toEqual([id, subnets, name]);
+    });
+  });
+
+  describe("validateReferences", () => {
+    const targets = {
+      "aws_vpc.main": { attributes: ["id", "cidr_block", "tags"] },
+      "data.aws_region.current": {},
+    };
+
+    test("accepts references to known elements and attributes", () => {
+      const errors = validateReferences(
+        "stack",
+        [
+          {
+            path: ["stack", "subnet"],
+            references: [
+              ref("aws_vpc.main", "cidr_block"),
+              ref("aws_vpc.main.*", "tags.env"),
+              ref("aws_vpc.main", ""),
+              ref("data.aws_region.current", "anything"),
+              ref("var", "region"),
+              ref("module.network", "vpc_id"),
+            ],
+          },
+        ],
+        targets,
+      );
+
+      expect(errors).toEqual([]);
+    });
+
+    test("reports missing elements and attributes once per element", () => {
+      const errors = validateReferences(
+        "stack",
+        [
+          {
+            path: ["stack", "subnet"],
+            references: [
+              ref("aws_vpc.main", "nonexistent_attr"),
+              ref("aws_vpc.main", "nonexistent_attr"),
+              ref("aws_vpc.missing", "id"),
+            ],
+          },
+        ],
+        targets,
+      );
+
+      expect(errors).toEqual([
+        {
+          path: ["stack", "subnet"],
+          level: "error",
+          message:
+            'Reference to "aws_vpc.main.nonexistent_attr" uses an attribute missing from its schema',
+        },
+        {
+          path: ["stack", "subnet"],
+          level: "error",
+          message: 'Reference to "aws_vpc.missing" does not match any element in stack "stack"',
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import {
+  asCollectionToken,
+  asToken,
+  type RefToken,
+  resolveToken,
+  resolveTokens,
+  type Token,
+  type TokenRegistry,
+  tokenToString,
+} from "./tokens.js";
+import type { ValidationError } from "./types.js";
+
+export type ReferenceTarget = {
+  // Top-level attribute and block names from the provider schema; unknown without codegen
+  readonly attributes?: readonly string[];
+};
+
+export type ElementReferences = {
+  readonly path: readonly string[];
+  readonly references: readonly RefToken[];
+};
+
+// Matches resource, data source and ephemeral resource addresses; references rooted at var,
+// local, module, each, count and similar objects are not checked
+const ADDRESS_REGEX = /^(?:(?:data|ephemeral)\.)?[A-Za-z_][\w-]*\.[A-Za-z_][\w-]*$/;
+const NON_ELEMENT_ROOTS = new Set(["var", "local", "module", "each", "count", "self", "path"]);
+
+export function referencedAddress(fqn: string): string | undefined {
+  const address = fqn.endsWith(".*") ? fqn.slice(0, -2) : fqn;
+  const root = address.split(".")[0] ?? "";
+  return ADDRESS_REGEX.test(address) && !NON_ELEMENT_ROOTS.has(root) ? address : undefined;
+}
+
+function collectRefs(token: Token): readonly RefToken[] {
+  switch (token.kind) {
+    case "ref":
+      return [token];
+    case "fn":
+      return token.args.flatMap((arg) => {
+        // Tokens and collection tokens among the arguments are rendered without the resolver
+        const nested = asToken(arg) ?? asCollectionToken(arg);
+        return nested !== null ? collectRefs(nested) : [];
+      });
+    case "raw":
+      return [];
+    case "lazy":
+      return collectRefs(resolveToken(token));
+  }
+}
+
+// Walks every token in `value` the way synthesis resolves it against `registry`
+export function collectReferences(value: unknown, registry: TokenRegistry): readonly RefToken[] {
+  const references: RefToken[] = [];
+  resolveTokens(
+    value,
+    (token) => {
+      references.push(...collectRefs(token));
+      return tokenToString(token);
+    },
+    registry,
+  );
+  return references;
+}
+
+export function validateReferences(
+  stackName: string,
+  elements: readonly ElementReferences[],
+  targets: Readonly<Record<string, ReferenceTarget>>,
+): readonly ValidationError[] {
+  return elements.flatMap(({ path, references }) => {
+    const messages = references.flatMap((reference) => {
+      const address = referencedAddress(reference.fqn);
+      if (address === undefined) {
+        return [];
+      }
+      const target = targets[address];
+      if (target === undefined) {
+        return [`Reference to "${address}" does not match any element in stack "${stackName}"`];
+      }
+      const attribute = reference.attribute.split(/[.[]/)[0] ?? "";
+      if (attribute === "" || target.attributes === undefined) {
+        return [];
+      }
+      return target.attributes.includes(attribute)
+        ? []
+        : [`Reference to "${address}.${attribute}" uses an attribute missing from its schema`];
+    });
+    return [...new Set(messages)].map(
+      (message): ValidationError => ({ path, message, level: "error" }),
+    );
+  });
+}
@@ -4,11 +4,14 @@ export type TerraformJson = {
   readonly provider?: Record<string, readonly Record<string, unknown>[]>;
   readonly resource?: Record<string, Record<string, Record<string, unknown>>>;
   readonly data?: Record<string, Record<string, Record<string, unknown>>>;
+  readonly ephemeral?: Record<string, Record<string, Record<string, unknown>>>;
   readonly variable?: Record<string, VariableBlock>;
   readonly output?: Record<string, OutputBlock>;
   readonly locals?: Record<string, unknown>;
   readonly module?: Record<string, ModuleBlock>;
+  readonly check?: Record<string, CheckBlock>;
   readonly moved?: readonly MovedBlock[];
+  readonly removed?: readonly RemovedBlock[];
   readonly import?: readonly ImportBlock[];
 };
 
@@ -54,6 +57,7 @@ export type VariableBlock = {
   readonly description?: string;
   readonly sensitive?: boolean;
   readonly nullable?: boolean;
+  readonly ephemeral?: boolean;
   readonly validation?: readonly ValidationBlock[];
 };
 
@@ -66,8 +70,9 @@ export type OutputBlock = {
   readonly value: unknown;
   readonly description?: string;
   readonly sensitive?: boolean;
+  readonly ephemeral?: boolean;
   readonly depends_on?: readonly string[];
-  readonly precondition?: ConditionBlock;
+  readonly precondition?: readonly ConditionBlock[];
 };
 
 export type ConditionBlock = {
@@ -85,11 +90,21 @@ export type ModuleBlock = {
   readonly [key: string]: unknown;
 };
 
+export type CheckBlock = {
+  readonly data?: Record<string, Record<string, Record<string, unknown>>>;
+  readonly assert: readonly ConditionBlock[];
+};
+
 export type MovedBlock = {
   readonly from: string;
   readonly to: string;
 };
 
+export type RemovedBlock = {
+  readonly from: string;
+  readonly lifecycle?: { readonly destroy?: boolean };
+};
+
 export type ImportBlock = {
   readonly id: string;
   readonly to: string;
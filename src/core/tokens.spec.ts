@@ -2,15 +2,23 @@ import { describe, expect, test } from "bun:test";
 import {
   asToken,
   containsTokens,
+  createConstantToken,
+  createListToken,
+  createMapToken,
+  createNumberToken,
   createToken,
+  createTokenRegistry,
   fn,
   lazy,
   raw,
   ref,
+  renderToken,
   resolveTokens,
   tokenToString,
 } from "./tokens.js";
 
+const registry = createTokenRegistry();
+
 describe("tokens", () => {
   describe("ref", () => {
     test("creates ref token", () => {
@@ -106,7 +114,7 @@ describe("tokens", () => {
   describe("createToken and containsTokens", () => {
     test("creates string token and detects it", () => {
       const token = ref("res", "attr");
-      const str = createToken(token);
+      const str = createToken(token, registry);
 
       expect(typeof str).toBe("string");
       expect(containsTokens(str)).toBe(true);
@@ -114,12 +122,39 @@ describe("tokens", () => {
 
     test("detects tokens in nested objects", () => {
       const token = ref("res", "attr");
-      const str = createToken(token);
+      const str = createToken(token, registry);
       const obj = { nested: { value: str } };
 
       expect(containsTokens(obj)).toBe(true);
     });
 
+    test("detects list and map tokens", () => {
+      expect(containsTokens(createListToken(ref("res", "list"), registry))).toBe(true);
+      expect(containsTokens(createMapToken(ref("res", "map"), registry))).toBe(true);
+    });
+
+    test("creates number token and detects it", () => {
+      const num = createNumberToken(ref("var", "replicas"), registry);
+
+      expect(typeof num).toBe("number");
+      expect(containsTokens(num)).toBe(true);
+      expect(resolveTokens({ count: num }, (t) => tokenToString(t), registry)).toEqual({
+        count: "${var.replicas}",
+      });
+    });
+
+    test("renders number tokens passed to functions as expressions", () => {
+      const num = createNumberToken(ref("var", "replicas"), registry);
+
+      const result = resolveTokens(
+        createToken(fn("max", num, 1), registry),
+        (t) => tokenToString(t),
+        registry,
+      );
+
+      expect(result).toBe("${max(var.replicas, 1)}");
+    });
+
     test("returns false for plain values", () => {
       expect(containsTokens("plain string")).toBe(false);
       expect(containsTokens(42)).toBe(false);
@@ -130,24 +165,24 @@ describe("tokens", () => {
   describe("resolveTokens", () => {
     test("resolves tokens in object", () => {
       const token = ref("aws_instance.main", "id");
-      const str = createToken(token);
+      const str = createToken(token, registry);
 
-      const result = resolveTokens({ value: str }, (t) => tokenToString(t));
+      const result = resolveTokens({ value: str }, (t) => tokenToString(t), registry);
 
       expect(result).toEqual({ value: "${aws_instance.main.id}" });
     });
 
     test("resolves tokens in array", () => {
       const token = ref("res", "attr");
-      const str = createToken(token);
+      const str = createToken(token, registry);
 
-      const result = resolveTokens([str, "plain"], (t) => tokenToString(t));
+      const result = resolveTokens([str, "plain"], (t) => tokenToString(t), registry);
 
       expect(result).toEqual(["${res.attr}", "plain"]);
     });
 
     test("passes through non-token values", () => {
-      const result = resolveTokens({ a: 1, b: "str" }, (t) => tokenToString(t));
+      const result = resolveTokens({ a: 1, b: "str" }, (t) => tokenToString(t), registry);
 
       expect(result).toEqual({ a: 1, b: "str" });
     });
@@ -155,19 +190,102 @@ describe("tokens", () => {
     test("resolves tokens in object keys", () => {
       const keyToken = ref("google_tags_tag_key.env", "id");
       const valueToken = ref("google_tags_tag_value.prod", "id");
-      const keyStr = createToken(keyToken);
-      const valueStr = createToken(valueToken);
+      const keyStr = createToken(keyToken, registry);
+      const valueStr = createToken(valueToken, registry);
 
-      const result = resolveTokens({ [keyStr]: valueStr }, (t) => tokenToString(t));
+      const result = resolveTokens({ [keyStr]: valueStr }, (t) => tokenToString(t), registry);
 
       expect(result).toEqual({
         "${google_tags_tag_key.env.id}": "${google_tags_tag_value.prod.id}",
       });
     });
 
+    test("resolves list and map tokens used whole", () => {
+      const list = createListToken(ref("aws_vpc.main", "subnet_ids"), registry);
+      const map = createMapToken(ref("aws_vpc.main", "tags"), registry);
+
+      const result = resolveTokens({ ids: list, tags: map }, (t) => tokenToString(t), registry);
+
+      expect(result).toEqual({ ids: "${aws_vpc.main.subnet_ids}", tags: "${aws_vpc.main.tags}" });
+    });
+
+    test("combines spread list tokens with concat", () => {
+      const list = createListToken(ref("aws_vpc.main", "subnet_ids"), registry);
+      const id = createToken(ref("aws_subnet.extra", "id"), registry);
+
+      const result = resolveTokens(["first", ...list, id], (t) => tokenToString(t), registry);
+
+      expect(result).toBe('${concat(["first"], aws_vpc.main.subnet_ids, [aws_subnet.extra.id])}');
+    });
+
+    test("combines spread map tokens with merge", () => {
+      const map = createMapToken(ref("aws_vpc.main", "tags"), registry);
+
+      const result = resolveTokens({ ...map, team: "core" }, (t) => tokenToString(t), registry);
+
+      expect(result).toBe('${merge(aws_vpc.main.tags, {"team" = "core"})}');
+    });
+
+    test("resolves list tokens passed to functions", () => {
+      const list = createListToken(ref("aws_vpc.main", "subnet_ids"), registry);
+
+      const result = resolveTokens(
+        createToken(fn("join", ",", list), registry),
+        (t) => tokenToString(t),
+        registry,
+      );
+
+      expect(result).toBe('${join(",", aws_vpc.main.subnet_ids)}');
+    });
+
+    test("reports tokens from another registry as unresolved", () => {
+      const first = createTokenRegistry();
+      const second = createTokenRegistry();
+      const foreign = createToken(ref("aws_instance.main", "id"), first);
+      const local = createToken(ref("aws_instance.other", "id"), second);
+      const unresolved: string[] = [];
+
+      const result = resolveTokens(
+        { foreign, local },
+        (t) => tokenToString(t),
+        second,
+        (marker) => unresolved.push(marker),
+      );
+
+      expect(result).toEqual({ foreign, local: "${aws_instance.other.id}" });
+      expect(unresolved).toEqual([foreign]);
+    });
+
+    test("renders unowned tokens without registering them", () => {
+      const owner = createTokenRegistry();
+      const list = createListToken(ref("aws_vpc.main", "subnet_ids"), owner);
+
+      const joined = renderToken(fn("join", ",", list));
+
+      expect(owner.tokens.size).toBe(1);
+      expect(resolveTokens(joined, (t) => tokenToString(t), owner)).toBe(
+        '${join(",", aws_vpc.main.subnet_ids)}',
+      );
+      const unresolved: string[] = [];
+      resolveTokens(
+        joined,
+        (t) => tokenToString(t),
+        createTokenRegistry(),
+        (marker) => unresolved.push(marker),
+      );
+      expect(unresolved).toHaveLength(1);
+    });
+
+    test("interns constant tokens and resolves them in every registry", () => {
+      const first = createConstantToken("each.key");
+
+      expect(createConstantToken("each.key")).toBe(first);
+      expect(resolveTokens(first, (t) => tokenToString(t), createTokenRegistry())).toBe("each.key");
+    });
+
     test("resolves nested tokens in object keys", () => {
       const keyToken = ref("resource.key", "attr");
-      const keyStr = createToken(keyToken);
+      const keyStr = createToken(keyToken, registry);
 
       const result = resolveTokens(
         {
@@ -176,6 +294,7 @@ describe("tokens", () => {
           },
         },
         (t) => tokenToString(t),
+        registry,
       );
 
       expect(result).toEqual({
@@ -46,6 +46,8 @@ const LazyTokenSchema = z.object({
   producer: z.function(),
 });
 
+const ResolvableSchema = z.object({ resolve: z.function() });
+
 const TokenSchema: z.ZodType<Token> = z.union([
   RefTokenSchema,
   FnTokenSchema,
@@ -76,16 +78,205 @@ export type IPostProcessor = {
 const TOKEN_MARKER = "${TfToken[";
 const TOKEN_MARKER_END = "]}";
 
+// List tokens are one-element arrays and map tokens one-entry records holding these markers,
+// so they keep the shape of the value they stand for until they are resolved
+const LIST_TOKEN_MARKER = "#{TfToken[";
+const MAP_TOKEN_MARKER = "&{TfToken[";
+const LIST_TOKEN_REGEX = /^#\{TfToken\[(\d+)\]\}$/;
+const MAP_TOKEN_REGEX = /^&\{TfToken\[(\d+)\]\}$/;
+
+// Number tokens are doubles whose high word starts with this marker; the token id fills the
+// other 48 bits, so a token can stand in wherever the types ask for a number
 const NUMBER_TOKEN_MARKER = 0x48c00000;
 const NUMBER_TOKEN_MASK = 0xffff0000;
+const NUMBER_TOKEN_HIGH_ID = 0x100000000;
+
+// Tokens are owned by a registry, normally one per App, so they are released together with
+// the App and cannot silently resolve inside another one
+export type TokenRegistry = {
+  readonly tokens: Map<number, Token>;
+};
+
+export type UnresolvedTokenHandler = (marker: string) => void;
 
-const tokenMap = new Map<number, Token>();
+export function createTokenRegistry(): TokenRegistry {
+  return { tokens: new Map() };
+}
+
+// Ids are unique across registries, so a token from another registry is never mistaken for
+// a local one
 let tokenCounter = 0;
 
-export function createToken(token: Token): string {
+function registerToken(token: Token, registry: TokenRegistry): number {
   const id = tokenCounter++;
-  tokenMap.set(id, token);
-  return `${TOKEN_MARKER}${id}${TOKEN_MARKER_END}`;
+  registry.tokens.set(id, token);
+  return id;
+}
+
+// Constant expressions, such as each.value, hold no markers and so do not depend on any App.
+// They are interned once per expression, which keeps their number bounded however many Apps
+// are created, and they resolve in every registry
+const constantTokens = createTokenRegistry();
+const constantTokenIds = new Map<string, number>();
+
+function constantTokenId(expression: string): number {
+  const existing = constantTokenIds.get(expression);
+  if (existing !== undefined) {
+    return existing;
+  }
+  const id = registerToken(raw(expression), constantTokens);
+  constantTokenIds.set(expression, id);
+  return id;
+}
+
+function lookupToken(id: number, registry: TokenRegistry): Token | undefined {
+  return registry.tokens.get(id) ?? constantTokens.tokens.get(id);
+}
+
+export function createToken(token: Token, registry: TokenRegistry): string {
+  return `${TOKEN_MARKER}${registerToken(token, registry)}${TOKEN_MARKER_END}`;
+}
+
+// Tokens that no construct owns, such as Fn and Op calls, are rendered right away instead of
+// being registered. The markers of the tokens they combine stay in the expression and are
+// resolved against the registry of the stack that uses it.
+export function renderToken(token: Token): string {
+  return tokenToString(token);
+}
+
+export function createConstantToken(expression: string): string {
+  return `${TOKEN_MARKER}${constantTokenId(expression)}${TOKEN_MARKER_END}`;
+}
+
+export function createConstantListToken(expression: string): string[] {
+  return [`${LIST_TOKEN_MARKER}${constantTokenId(expression)}${TOKEN_MARKER_END}`];
+}
+
+// The single marker element stands for the whole list, so the element type is only nominal:
+// callers pick the type the list has in Terraform (e.g. createListToken<number>)
+export function createListToken<T = string>(token: Token, registry: TokenRegistry): T[];
+export function createListToken(token: Token, registry: TokenRegistry): unknown[] {
+  return [`${LIST_TOKEN_MARKER}${registerToken(token, registry)}${TOKEN_MARKER_END}`];
+}
+
+export function createMapToken<T = string>(
+  token: Token,
+  registry: TokenRegistry,
+): Record<string, T>;
+export function createMapToken(token: Token, registry: TokenRegistry): Record<string, unknown> {
+  const marker = `${MAP_TOKEN_MARKER}${registerToken(token, registry)}${TOKEN_MARKER_END}`;
+  return { [marker]: marker };
+}
+
+export function createNumberToken(token: Token, registry: TokenRegistry): number {
+  const id = registerToken(token, registry);
+  const view = new DataView(new ArrayBuffer(8));
+  view.setUint32(0, NUMBER_TOKEN_MARKER | Math.floor(id / NUMBER_TOKEN_HIGH_ID), false);
+  view.setUint32(4, id % NUMBER_TOKEN_HIGH_ID, false);
+  return view.getFloat64(0, false);
+}
+
+function numberTokenId(value: number): number | null {
+  const view = new DataView(new ArrayBuffer(8));
+  view.setFloat64(0, value, false);
+  const high = view.getUint32(0, false);
+  if ((high & NUMBER_TOKEN_MASK) !== NUMBER_TOKEN_MARKER) {
+    return null;
+  }
+  return (high & ~NUMBER_TOKEN_MASK) * NUMBER_TOKEN_HIGH_ID + view.getUint32(4, false);
+}
+
+// Collection and number tokens are rendered as a reference to their marker, which is looked
+// up once the surrounding string is resolved against a registry
+function markerReference(id: number): RawToken {
+  return raw(`${TOKEN_MARKER}${id}${TOKEN_MARKER_END}`);
+}
+
+export function asNumberToken(value: unknown): Token | null {
+  const id = typeof value === "number" ? numberTokenId(value) : null;
+  return id !== null ? markerReference(id) : null;
+}
+
+function markedToken(value: unknown, regex: RegExp): Token | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+  const match = regex.exec(value);
+  return match !== null ? markerReference(parseInt(match[1] ?? "0", 10)) : null;
+}
+
+function asListToken(value: readonly unknown[]): Token | null {
+  return value.length === 1 ? markedToken(value[0], LIST_TOKEN_REGEX) : null;
+}
+
+function asMapToken(value: Record<string, unknown>): Token | null {
+  const keys = Object.keys(value);
+  return keys.length === 1 ? markedToken(keys[0], MAP_TOKEN_REGEX) : null;
+}
+
+// A list token spread into a larger list cannot become a tuple literal element, so the list is
+// rebuilt as concat() over the list tokens and the literal runs between them
+function concatArguments(value: readonly unknown[]): unknown[] | null {
+  if (!value.some((item) => markedToken(item, LIST_TOKEN_REGEX) !== null)) {
+    return null;
+  }
+  const args: unknown[] = [];
+  let literals: unknown[] = [];
+  for (const item of value) {
+    const token = markedToken(item, LIST_TOKEN_REGEX);
+    if (token === null) {
+      literals.push(item);
+      continue;
+    }
+    if (literals.length > 0) {
+      args.push(literals);
+      literals = [];
+    }
+    args.push(token);
+  }
+  if (literals.length > 0) {
+    args.push(literals);
+  }
+  return args;
+}
+
+// The map counterpart of concatArguments: spread map tokens are combined with merge()
+function mergeArguments(value: Record<string, unknown>): unknown[] | null {
+  const entries = Object.entries(value);
+  if (!entries.some(([key]) => markedToken(key, MAP_TOKEN_REGEX) !== null)) {
+    return null;
+  }
+  const args: unknown[] = [];
+  let literals: [string, unknown][] = [];
+  for (const [key, item] of entries) {
+    const token = markedToken(key, MAP_TOKEN_REGEX);
+    if (token === null) {
+      literals.push([key, item]);
+      continue;
+    }
+    if (literals.length > 0) {
+      args.push(Object.fromEntries(literals));
+      literals = [];
+    }
+    args.push(token);
+  }
+  if (literals.length > 0) {
+    args.push(Object.fromEntries(literals));
+  }
+  return args;
+}
+
+export function asCollectionToken(value: unknown): Token | null {
+  if (Array.isArray(value)) {
+    const args = concatArguments(value);
+    return asListToken(value) ?? (args !== null ? fn("concat", ...args) : null);
+  }
+  const obj = z.record(z.string(), z.unknown()).safeParse(value);
+  if (obj.success) {
+    const args = mergeArguments(obj.data);
+    return asMapToken(obj.data) ?? (args !== null ? fn("merge", ...args) : null);
+  }
+  return null;
 }
 
 export function ref(fqn: string, attribute: string): RefToken {
@@ -104,10 +295,15 @@ export function lazy(producer: () => unknown): LazyToken {
   return { kind: "lazy", producer };
 }
 
+// An empty attribute refers to the element itself, as element.fqn does
+function refExpression(token: RefToken): string {
+  return token.attribute === "" ? token.fqn : `${token.fqn}.${token.attribute}`;
+}
+
 export function tokenToString(token: Token): string {
   switch (token.kind) {
     case "ref":
-      return `\${${token.fqn}.${token.attribute}}`;
+      return `\${${refExpression(token)}}`;
     case "fn":
       return `\${${token.name}(${token.args.map(argToString).join(", ")})}`;
     case "raw":
@@ -120,7 +316,7 @@ export function tokenToString(token: Token): string {
 function tokenToExpression(token: Token): string {
   switch (token.kind) {
     case "ref":
-      return `${token.fqn}.${token.attribute}`;
+      return refExpression(token);
     case "fn":
       return `${token.name}(${token.args.map(argToString).join(", ")})`;
     case "raw":
@@ -148,7 +344,12 @@ function argToString(arg: unknown): string {
     return `"${escapeStringForTerraform(arg)}"`;
   }
   if (typeof arg === "number" || typeof arg === "boolean") {
-    return String(arg);
+    const token = asNumberToken(arg);
+    return token !== null ? tokenToExpression(token) : String(arg);
+  }
+  const collection = asCollectionToken(arg);
+  if (collection !== null) {
+    return tokenToExpression(collection);
   }
   if (Array.isArray(arg)) {
     return `[${arg.map(argToString).join(", ")}]`;
@@ -178,18 +379,18 @@ export function containsTokens(value: unknown): boolean {
   }
 
   if (typeof value === "string") {
-    return value.includes(TOKEN_MARKER);
+    return (
+      value.includes(TOKEN_MARKER) ||
+      value.includes(LIST_TOKEN_MARKER) ||
+      value.includes(MAP_TOKEN_MARKER)
+    );
   }
 
   if (typeof value === "number") {
-    const buffer = new ArrayBuffer(8);
-    const view = new DataView(buffer);
-    view.setFloat64(0, value, false);
-    const high = view.getUint32(0, false);
-    return (high & NUMBER_TOKEN_MASK) === NUMBER_TOKEN_MARKER;
+    return numberTokenId(value) !== null;
   }
 
-  if (asToken(value) !== null) {
+  if (asToken(value) !== null || ResolvableSchema.safeParse(value).success) {
     return true;
   }
 
@@ -219,26 +420,51 @@ export function resolveToken(token: Token): Token {
   return token;
 }
 
-export function resolveTokens(value: unknown, resolver: TokenResolver): unknown {
+// Resolves markers against `registry` and the interned constants. Markers of tokens neither
+// knows, such as tokens from another App, are reported to `onUnresolved` instead of being
+// resolved.
+export function resolveTokens(
+  value: unknown,
+  resolver: TokenResolver,
+  registry: TokenRegistry,
+  onUnresolved: UnresolvedTokenHandler = () => {},
+): unknown {
   if (value === null || value === undefined) {
     return value;
   }
 
   if (typeof value === "string") {
-    return resolveStringTokens(value, resolver);
+    return resolveStringTokens(value, resolver, registry, onUnresolved);
   }
 
   if (typeof value === "number") {
-    return resolveNumberToken(value, resolver);
+    return resolveNumberToken(value, resolver, registry, onUnresolved);
   }
 
-  const token = asToken(value);
+  // IResolvable values, such as boolean attributes, resolve to a value that may hold tokens
+  const resolvable = ResolvableSchema.safeParse(value);
+  if (resolvable.success) {
+    const context: IResolveContext = {
+      scope: undefined,
+      preparing: false,
+      originStack: [],
+      registerPostProcessor: () => {},
+      resolve: (v) => resolveTokens(v, resolver, registry, onUnresolved),
+    };
+    const resolved: unknown = Reflect.apply(resolvable.data.resolve, value, [context]);
+    return resolveTokens(resolved, resolver, registry, onUnresolved);
+  }
+
+  const token = asToken(value) ?? asCollectionToken(value);
   if (token !== null) {
-    return resolver(token);
+    const resolved = resolver(token);
+    return typeof resolved === "string"
+      ? resolveStringTokens(resolved, resolver, registry, onUnresolved)
+      : resolved;
   }
 
   if (Array.isArray(value)) {
-    return value.map((item) => resolveTokens(item, resolver));
+    return value.map((item) => resolveTokens(item, resolver, registry, onUnresolved));
   }
 
   if (typeof value === "object") {
@@ -246,9 +472,9 @@ export function resolveTokens(value: unknown, resolver: TokenResolver): unknown
     if (obj.success) {
       return Object.fromEntries(
         Object.entries(obj.data).map(([key, val]) => {
-          const resolvedKey = resolveStringTokens(key, resolver);
+          const resolvedKey = resolveStringTokens(key, resolver, registry, onUnresolved);
           const keyStr = typeof resolvedKey === "string" ? resolvedKey : key;
-          return [keyStr, resolveTokens(val, resolver)];
+          return [keyStr, resolveTokens(val, resolver, registry, onUnresolved)];
         }),
       );
     }
@@ -257,8 +483,15 @@ export function resolveTokens(value: unknown, resolver: TokenResolver): unknown
   return value;
 }
 
-function resolveStringTokens(value: string, resolver: TokenResolver): unknown {
-  const wrappedRegex = /\$\{TfToken\[(\d+)\]\}/g;
+function resolveStringTokens(
+  value: string,
+  resolver: TokenResolver,
+  registry: TokenRegistry,
+  onUnresolved: UnresolvedTokenHandler,
+): unknown {
+  // List and map markers used as a single string (e.g. an element of a list token) resolve
+  // to the whole collection expression
+  const wrappedRegex = /[$#&]\{TfToken\[(\d+)\]\}/g;
   const bareRegex = /TfToken\[(\d+)\]/g;
 
   const hasWrapped = wrappedRegex.test(value);
@@ -283,17 +516,19 @@ function resolveStringTokens(value: string, resolver: TokenResolver): unknown {
     }
 
     const tokenId = parseInt(match[1] ?? "0", 10);
-    const token = tokenMap.get(tokenId);
+    const token = lookupToken(tokenId, registry);
     if (token) {
       let resolved = resolver(token);
       if (isBareMatch && typeof resolved === "string") {
         resolved = unwrapTerraformExpression(resolved);
       }
       if (typeof resolved === "string" && containsTokenPattern(resolved)) {
-        parts.push(resolveStringTokens(resolved, resolver));
+        parts.push(resolveStringTokens(resolved, resolver, registry, onUnresolved));
       } else {
         parts.push(resolved);
       }
+    } else {
+      onUnresolved(match[0]);
     }
 
     lastIndex = regex.lastIndex;
@@ -313,13 +548,13 @@ function resolveStringTokens(value: string, resolver: TokenResolver): unknown {
 
   const result = parts.map((p) => (typeof p === "string" ? p : String(p))).join("");
   if (containsTokenPattern(result)) {
-    return resolveStringTokens(result, resolver);
+    return resolveStringTokens(result, resolver, registry, onUnresolved);
   }
   return result;
 }
 
 function containsTokenPattern(value: string): boolean {
-  return /\$\{TfToken\[\d+\]\}/.test(value) || /TfToken\[\d+\]/.test(value);
+  return /[$#&]\{TfToken\[\d+\]\}/.test(value) || /TfToken\[\d+\]/.test(value);
 }
 
 function unwrapTerraformExpression(expr: string): string {
@@ -329,21 +564,22 @@ function unwrapTerraformExpression(expr: string): string {
   return expr;
 }
 
-function resolveNumberToken(value: number, resolver: TokenResolver): unknown {
-  const buffer = new ArrayBuffer(8);
-  const view = new DataView(buffer);
-  view.setFloat64(0, value, false);
-  const high = view.getUint32(0, false);
-
-  if ((high & NUMBER_TOKEN_MASK) !== NUMBER_TOKEN_MARKER) {
+function resolveNumberToken(
+  value: number,
+  resolver: TokenResolver,
+  registry: TokenRegistry,
+  onUnresolved: UnresolvedTokenHandler,
+): unknown {
+  const tokenId = numberTokenId(value);
+  if (tokenId === null) {
     return value;
   }
 
-  const tokenId = high & ~NUMBER_TOKEN_MASK;
-  const token = tokenMap.get(tokenId);
+  const token = lookupToken(tokenId, registry);
   if (token) {
     return resolver(token);
   }
 
+  onUnresolved(`TfToken[${tokenId}]`);
   return value;
 }
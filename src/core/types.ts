@@ -6,16 +6,23 @@ export type ConstructNode = {
 };
 
 export type ConstructMetadata =
+  | ScopeMetadata
   | AppMetadata
   | StackMetadata
   | ResourceMetadata
   | ProviderMetadata
   | DataSourceMetadata
+  | EphemeralResourceMetadata
   | VariableMetadata
   | OutputMetadata
   | BackendMetadata
   | LocalMetadata
-  | ModuleMetadata;
+  | ModuleMetadata
+  | CheckMetadata;
+
+export type ScopeMetadata = {
+  readonly kind: "construct";
+};
 
 export type AppMetadata = {
   readonly kind: "app";
@@ -45,6 +52,11 @@ export type DataSourceMetadata = {
   readonly datasource: DataSourceDef;
 };
 
+export type EphemeralResourceMetadata = {
+  readonly kind: "ephemeral-resource";
+  readonly ephemeralResource: DataSourceDef;
+};
+
 export type VariableMetadata = {
   readonly kind: "variable";
   readonly variable: VariableDef;
@@ -70,12 +82,17 @@ export type ModuleMetadata = {
   readonly module: ModuleDef;
 };
 
+export type CheckMetadata = {
+  readonly kind: "check";
+  readonly check: CheckDef;
+};
+
 export type ResourceDef = {
   readonly terraformResourceType: string;
   readonly provider?: string;
   readonly dependsOn?: readonly string[];
   readonly count?: number | string;
-  readonly forEach?: string;
+  readonly forEach?: unknown;
   readonly lifecycle?: LifecycleDef;
   readonly provisioners?: readonly ProvisionerDef[];
   readonly connection?: ConnectionDef;
@@ -95,7 +112,8 @@ export type DataSourceDef = {
   readonly provider?: string;
   readonly dependsOn?: readonly string[];
   readonly count?: number | string;
-  readonly forEach?: string;
+  readonly forEach?: unknown;
+  readonly lifecycle?: LifecycleDef;
   readonly config: Record<string, unknown>;
 };
 
@@ -105,6 +123,7 @@ export type VariableDef = {
   readonly description?: string;
   readonly sensitive?: boolean;
   readonly nullable?: boolean;
+  readonly ephemeral?: boolean;
   readonly validation?: readonly ValidationDef[];
 };
 
@@ -112,8 +131,9 @@ export type OutputDef = {
   readonly value: unknown;
   readonly description?: string;
   readonly sensitive?: boolean;
+  readonly ephemeral?: boolean;
   readonly dependsOn?: readonly string[];
-  readonly precondition?: ConditionDef;
+  readonly precondition?: readonly ConditionDef[];
 };
 
 export type BackendDef = {
@@ -130,11 +150,15 @@ export type ModuleDef = {
   readonly version?: string;
   readonly providers?: Record<string, string>;
   readonly dependsOn?: readonly string[];
-  readonly forEach?: string;
+  readonly forEach?: unknown;
   readonly count?: number | string;
   readonly variables: Record<string, unknown>;
 };
 
+export type CheckDef = {
+  readonly assert: readonly ConditionDef[];
+};
+
 export type LifecycleDef = {
   readonly createBeforeDestroy?: boolean;
   readonly preventDestroy?: boolean;
@@ -62,6 +62,42 @@ describe("validate", () => {
       expect(errors.some((e) => e.message.includes("value"))).toBe(true);
     });
 
+    test("validates custom conditions have an errorMessage", () => {
+      const node = createNode("ds", ["stack", "ds"], {
+        kind: "datasource",
+        datasource: {
+          terraformResourceType: "aws_ami",
+          lifecycle: {
+            postcondition: [{ condition: '${self.id != ""}', errorMessage: "" }],
+          },
+          config: {},
+        },
+      });
+
+      const errors = validateNode(node);
+
+      expect(errors.map((e) => e.message)).toEqual(["Postcondition must have an errorMessage"]);
+    });
+
+    test("rejects literal strings as conditions", () => {
+      const node = createNode("ds", ["stack", "ds"], {
+        kind: "datasource",
+        datasource: {
+          terraformResourceType: "aws_ami",
+          lifecycle: {
+            precondition: [{ condition: "var.size > 0", errorMessage: "Size is required." }],
+          },
+          config: {},
+        },
+      });
+
+      const errors = validateNode(node);
+
+      expect(errors.map((e) => e.message)).toEqual([
+        "Precondition condition must be an expression built from tokens, Fn or Op, not a literal string",
+      ]);
+    });
+
     test("validates module has source", () => {
       const node = createNode("mod", ["stack", "mod"], {
         kind: "module",
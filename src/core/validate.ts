@@ -1,5 +1,6 @@
+import { containsTokens } from "./tokens.js";
 import { getDescendants } from "./tree.js";
-import type { ConstructNode, ValidationError } from "./types.js";
+import type { ConditionDef, ConstructNode, ValidationError } from "./types.js";
 
 export function validateNode(node: ConstructNode): readonly ValidationError[] {
   const errors: ValidationError[] = [];
@@ -14,17 +15,26 @@ export function validateNode(node: ConstructNode): readonly ValidationError[] {
     case "variable":
       errors.push(...validateVariable(node));
       break;
+    case "datasource":
+      errors.push(...validateDataSource(node));
+      break;
+    case "ephemeral-resource":
+      errors.push(...validateEphemeralResource(node));
+      break;
     case "output":
       errors.push(...validateOutput(node));
       break;
     case "module":
       errors.push(...validateModule(node));
       break;
+    case "check":
+      errors.push(...validateCheck(node));
+      break;
     case "stack":
       errors.push(...validateStack(node));
       break;
+    case "construct":
     case "app":
-    case "datasource":
     case "backend":
     case "local":
       break;
@@ -58,9 +68,71 @@ function validateResource(node: ConstructNode): readonly ValidationError[] {
     });
   }
 
+  errors.push(
+    ...validateConditions(node.path, "Precondition", resource.lifecycle?.precondition),
+    ...validateConditions(node.path, "Postcondition", resource.lifecycle?.postcondition),
+  );
+
   return errors;
 }
 
+function validateDataSource(node: ConstructNode): readonly ValidationError[] {
+  if (node.metadata.kind !== "datasource") {
+    return [];
+  }
+
+  const { datasource } = node.metadata;
+
+  return [
+    ...validateConditions(node.path, "Precondition", datasource.lifecycle?.precondition),
+    ...validateConditions(node.path, "Postcondition", datasource.lifecycle?.postcondition),
+  ];
+}
+
+function validateEphemeralResource(node: ConstructNode): readonly ValidationError[] {
+  if (node.metadata.kind !== "ephemeral-resource") {
+    return [];
+  }
+
+  const { ephemeralResource } = node.metadata;
+
+  return [
+    ...validateConditions(node.path, "Precondition", ephemeralResource.lifecycle?.precondition),
+    ...validateConditions(node.path, "Postcondition", ephemeralResource.lifecycle?.postcondition),
+  ];
+}
+
+// Fn, Op and attribute references produce tokens, and a whole "${...}" string is kept for
+// expressions such as `self` that have no token. Any other string would reach Terraform as a
+// literal instead of an expression.
+function isExpression(condition: string): boolean {
+  return containsTokens(condition) || /^\$\{[\s\S]*\}$/.test(condition);
+}
+
+function validateConditions(
+  path: readonly string[],
+  label: string,
+  conditions: readonly ConditionDef[] | undefined,
+): readonly ValidationError[] {
+  return (conditions ?? []).flatMap((condition) => [
+    ...(!condition.condition
+      ? [{ path, message: `${label} must have a condition`, level: "error" as const }]
+      : []),
+    ...(condition.condition && !isExpression(condition.condition)
+      ? [
+          {
+            path,
+            message: `${label} condition must be an expression built from tokens, Fn or Op, not a literal string`,
+            level: "error" as const,
+          },
+        ]
+      : []),
+    ...(!condition.errorMessage
+      ? [{ path, message: `${label} must have an errorMessage`, level: "error" as const }]
+      : []),
+  ]);
+}
+
 function validateProvider(node: ConstructNode): readonly ValidationError[] {
   const errors: ValidationError[] = [];
 
@@ -135,6 +207,8 @@ function validateOutput(node: ConstructNode): readonly ValidationError[] {
     });
   }
 
+  errors.push(...validateConditions(node.path, "Precondition", output.precondition));
+
   return errors;
 }
 
@@ -166,6 +240,29 @@ function validateModule(node: ConstructNode): readonly ValidationError[] {
   return errors;
 }
 
+function validateCheck(node: ConstructNode): readonly ValidationError[] {
+  if (node.metadata.kind !== "check") {
+    return [];
+  }
+
+  const { check } = node.metadata;
+
+  return [
+    ...(check.assert.length === 0
+      ? [
+          {
+            path: node.path,
+            message: "Check must have at least one assert",
+            level: "error" as const,
+          },
+        ]
+      : []),
+    ...validateConditions(node.path, "Assert", check.assert),
+  ];
+}
+
+export const NO_PROVIDERS_MESSAGE = "Stack has no providers configured";
+
 function validateStack(node: ConstructNode): readonly ValidationError[] {
   const errors: ValidationError[] = [];
 
@@ -178,7 +275,7 @@ function validateStack(node: ConstructNode): readonly ValidationError[] {
   if (providers.length === 0) {
     errors.push({
       path: node.path,
-      message: "Stack has no providers configured",
+      message: NO_PROVIDERS_MESSAGE,
       level: "warning",
     });
   }
@@ -28,6 +28,7 @@ export class Annotations {
   }
 
   private addMessage(level: AnnotationMetadataEntryType, message: string): void {
-    this.scope.node.addMetadata(level, message);
+    const disableTrace = this.scope.node.tryGetContext(DISABLE_STACK_TRACE_IN_METADATA) === true;
+    this.scope.node.addMetadata(level, message, { stackTrace: !disableTrace });
   }
 }
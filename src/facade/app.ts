@@ -1,7 +1,17 @@
 import { existsSync, mkdirSync, writeFileSync } from "node:fs";
 import { join } from "node:path";
 import { z } from "zod";
+import type { DependencyGraph } from "../core/graph.js";
+import { walkTree } from "../core/tree.js";
+import type { ConstructMetadata } from "../core/types.js";
+import {
+  detectCircularDependencies,
+  NO_PROVIDERS_MESSAGE,
+  validateNode,
+} from "../core/validate.js";
+import { DISABLE_STACK_TRACE_IN_METADATA } from "./annotations.js";
 import { Construct } from "./construct.js";
+import { buildConstructTree } from "./construct-tree.js";
 import { getStack, type StackLike } from "./stack-registry.js";
 import { TerraformElement } from "./terraform-element.js";
 
@@ -11,6 +21,8 @@ const ContextSchema = z.record(z.string(), z.unknown());
 
 const APP_SYMBOL = Symbol.for("tfts/App");
 export const CONTEXT_ENV = "CDKTF_CONTEXT_JSON";
+// Set by `tfts graph` so synth also writes graph.json next to the manifest
+export const GRAPH_ENV = "TFTS_GRAPH_OUTPUT";
 
 export type AppConfig = {
   readonly outdir?: string;
@@ -19,6 +31,8 @@ export type AppConfig = {
   readonly context?: Record<string, unknown>;
   readonly skipValidation?: boolean;
   readonly skipBackendValidation?: boolean;
+  // Checks references against the stack's elements and their provider schemas during synth
+  readonly validateReferences?: boolean;
 };
 
 export type Manifest = {
@@ -26,6 +40,18 @@ export type Manifest = {
   readonly outdir: string;
   readonly hclOutput: boolean;
   stacks: Record<string, StackManifest>;
+  validation?: ValidationReport;
+};
+
+export type ValidationReport = {
+  readonly errors: ValidationReportEntry[];
+  readonly warnings: ValidationReportEntry[];
+};
+
+export type ValidationReportEntry = {
+  readonly constructPath: string;
+  readonly level: "error" | "warning" | "info";
+  readonly message: string;
 };
 
 export type StackManifest = {
@@ -35,6 +61,16 @@ export type StackManifest = {
   readonly workingDirectory: string;
   readonly annotations: Annotation[];
   readonly dependencies: string[];
+  readonly assets: AssetManifest[];
+};
+
+export type AssetManifest = {
+  readonly constructPath: string;
+  readonly type: "file" | "directory" | "archive";
+  readonly sourcePath: string;
+  // Relative to the stack's working directory
+  readonly path: string;
+  readonly assetHash: string;
 };
 
 export type Annotation = {
@@ -50,6 +86,7 @@ export class App extends Construct {
   public readonly targetStackId: string | undefined;
   public readonly skipValidation: boolean;
   public readonly skipBackendValidation: boolean;
+  public readonly validateReferences: boolean;
   public readonly manifest: Manifest;
 
   private _synthesized = false;
@@ -67,11 +104,12 @@ export class App extends Construct {
     this.targetStackId = process.env["CDKTF_TARGET_STACK_ID"];
     this.skipValidation = config.skipValidation ?? false;
     this.skipBackendValidation = config.skipBackendValidation ?? false;
+    this.validateReferences = config.validateReferences ?? false;
 
     this.loadContext(config.context);
 
     if (config.stackTraces === false) {
-      this.node.setContext("DISABLE_STACK_TRACE_IN_METADATA", true);
+      this.node.setContext(DISABLE_STACK_TRACE_IN_METADATA, true);
     }
 
     this.node.setContext("cdktfVersion", "0.0.0");
@@ -84,6 +122,15 @@ export class App extends Construct {
     };
   }
 
+  override toConstructMetadata(): ConstructMetadata {
+    return {
+      kind: "app",
+      outdir: this.outdir,
+      skipValidation: this.skipValidation,
+      skipBackendValidation: this.skipBackendValidation,
+    };
+  }
+
   static asApp(x: unknown): App | null {
     if (x instanceof App) {
       return x;
@@ -122,16 +169,98 @@ export class App extends Construct {
     }
 
     if (!this.skipValidation) {
-      const errors = this.node.findAll().flatMap((construct) => construct.node.validate());
-      if (errors.length > 0) {
-        return;
-      }
+      this.manifest.validation = this.validate();
     }
 
     this.writeManifest();
+    if (process.env[GRAPH_ENV] === "true") {
+      writeFileSync(join(this.outdir, "graph.json"), JSON.stringify(this.graph(), null, 2));
+    }
+
+    const validationErrors = this.manifest.validation?.errors ?? [];
+    if (validationErrors.length > 0) {
+      throw new Error(formatErrors("Validation failed", validationErrors));
+    }
+
+    const annotationErrors = Object.values(this.manifest.stacks)
+      .flatMap((stack) => stack.annotations)
+      .filter((annotation) => annotation.level === "error");
+    if (annotationErrors.length > 0) {
+      throw new Error(formatErrors("Synthesis failed", annotationErrors));
+    }
+
     this._synthesized = true;
   }
 
+  validate(): ValidationReport {
+    const tree = buildConstructTree(this);
+
+    const constructErrors = this.node.findAll().flatMap((construct) =>
+      construct.node.validate().map(
+        (message): ValidationReportEntry => ({
+          constructPath: construct.node.path,
+          level: "error",
+          message,
+        }),
+      ),
+    );
+    // TerraformStack reports a missing provider as an error of its own, which the core warning
+    // for the same stack would only repeat
+    const constructPaths = new Set(constructErrors.map((e) => e.constructPath));
+    const treeErrors = walkTree(tree, validateNode)
+      .flat()
+      .filter(
+        (error) =>
+          error.message !== NO_PROVIDERS_MESSAGE || !constructPaths.has(error.path.join("/")),
+      )
+      .map(
+        (error): ValidationReportEntry => ({
+          constructPath: error.path.join("/"),
+          level: error.level,
+          message: error.message,
+        }),
+      );
+    const cycleErrors = (detectCircularDependencies(tree) ?? []).map(
+      (cycle): ValidationReportEntry => ({
+        constructPath: this.node.path,
+        level: "error",
+        message: `Circular dependency between stacks: ${cycle.join(" -> ")}`,
+      }),
+    );
+
+    const referenceErrors = this.validateReferences
+      ? this.node
+          .findAll()
+          .flatMap((c) => this.asStack(c)?.referenceErrors() ?? [])
+          .map(
+            (error): ValidationReportEntry => ({
+              constructPath: error.path.join("/"),
+              level: error.level,
+              message: error.message,
+            }),
+          )
+      : [];
+
+    const entries = [...constructErrors, ...treeErrors, ...cycleErrors, ...referenceErrors];
+    return {
+      errors: entries.filter((e) => e.level === "error"),
+      warnings: entries.filter((e) => e.level !== "error"),
+    };
+  }
+
+  // Stacks and their resources, data sources and remote states. Edges point from the dependent
+  // node to its dependency: stack dependencies, depends_on entries and token references.
+  graph(): DependencyGraph {
+    const graphs = this.node.findAll().flatMap((c) => {
+      const stack = this.asStack(c);
+      return stack !== null ? [stack.dependencyGraph()] : [];
+    });
+    return {
+      nodes: graphs.flatMap((g) => g.nodes),
+      edges: graphs.flatMap((g) => g.edges),
+    };
+  }
+
   private asStack(c: unknown): TerraformStack | null {
     if (!(c instanceof TerraformElement)) {
       return null;
@@ -179,3 +308,13 @@ export class App extends Construct {
     return remoteState.getString(outputId);
   }
 }
+
+function formatErrors(
+  title: string,
+  errors: readonly { readonly constructPath: string; readonly message: string }[],
+): string {
+  const lines = errors.map(
+    (e) => `  [${e.constructPath === "" ? "app" : e.constructPath}] ${e.message}`,
+  );
+  return `${title} with ${String(errors.length)} error(s):\n${lines.join("\n")}`;
+}
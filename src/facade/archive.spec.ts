@@ -0,0 +1,63 @@
+import { describe, expect, test } from "bun:test";
+import { inflateRawSync } from "node:zlib";
+import { createArchive } from "./archive.js";
+
+type ReadEntry = { name: string; mode: number; time: number; date: number; data: string };
+
+// Reads the central directory back, which is what unzip tools rely on
+function readArchive(archive: Buffer): ReadEntry[] {
+  const end = archive.length - 22;
+  const count = archive.readUInt16LE(end + 10);
+  let offset = archive.readUInt32LE(end + 16);
+  return Array.from({ length: count }, () => {
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString("utf-8", offset + 46, offset + 46 + nameLength);
+    const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26);
+    const content = archive.subarray(dataStart, dataStart + compressedSize);
+    const entry = {
+      name,
+      mode: archive.readUInt32LE(offset + 38) >>> 16,
+      time: archive.readUInt16LE(offset + 12),
+      date: archive.readUInt16LE(offset + 14),
+      data: (method === 8 ? inflateRawSync(content) : content).toString("utf-8"),
+    };
+    offset += 46 + nameLength;
+    return entry;
+  });
+}
+
+describe("createArchive", () => {
+  test("writes sorted entries with fixed timestamps and permissions", () => {
+    const archive = createArchive([
+      { name: "lib/util.js", data: Buffer.from("exports.x = 1;\n".repeat(20)) },
+      { name: "bootstrap", data: Buffer.from("#!/bin/sh\n"), executable: true },
+      { name: "index.js", data: Buffer.from("") },
+    ]);
+
+    expect(readArchive(archive)).toEqual([
+      { name: "bootstrap", mode: 0o100755, time: 0, date: 33, data: "#!/bin/sh\n" },
+      { name: "index.js", mode: 0o100644, time: 0, date: 33, data: "" },
+      {
+        name: "lib/util.js",
+        mode: 0o100644,
+        time: 0,
+        date: 33,
+        data: "exports.x = 1;\n".repeat(20),
+      },
+    ]);
+  });
+
+  test("produces identical bytes regardless of entry order", () => {
+    const a = { name: "a.txt", data: Buffer.from("a") };
+    const b = { name: "b/c.txt", data: Buffer.from("c") };
+
+    expect(createArchive([b, a]).equals(createArchive([a, b]))).toBe(true);
+  });
+
+  test("writes an empty archive", () => {
+    expect(createArchive([])).toHaveLength(22);
+  });
+});
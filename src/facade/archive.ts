@@ -0,0 +1,114 @@
+import { deflateRawSync } from "node:zlib";
+
+export type ArchiveEntry = {
+  // Path inside the archive, using forward slashes
+  readonly name: string;
+  readonly data: Buffer;
+  readonly executable?: boolean;
+};
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+const ZIP_VERSION = 20;
+// Upper byte 3 marks Unix, so unzip honours the permissions in the external attributes
+const VERSION_MADE_BY = (3 << 8) | ZIP_VERSION;
+const UTF8_NAMES_FLAG = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+// 1980-01-01 00:00:00, the earliest date a zip entry can carry
+const DOS_TIME = 0;
+const DOS_DATE = (1 << 5) | 1;
+const FILE_MODE = 0o100644;
+const EXECUTABLE_MODE = 0o100755;
+const MAX_ENTRIES = 0xffff;
+const MAX_SIZE = 0xffffffff;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = (c & 1) !== 0 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = (CRC_TABLE[(crc ^ byte) & 0xff] ?? 0) ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Builds a zip whose bytes depend only on the entry names, contents and executable bits:
+// entries are sorted, timestamps are fixed and permissions are normalized to 644 or 755.
+export function createArchive(entries: readonly ArchiveEntry[]): Buffer {
+  if (entries.length > MAX_ENTRIES) {
+    throw new Error(`Archives are limited to ${String(MAX_ENTRIES)} entries`);
+  }
+  const sorted = [...entries].sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of sorted) {
+    if (entry.data.length > MAX_SIZE) {
+      throw new Error(`Archive entry "${entry.name}" is larger than 4 GiB`);
+    }
+    const name = Buffer.from(entry.name, "utf-8");
+    const deflated = deflateRawSync(entry.data, { level: 9 });
+    const method = deflated.length < entry.data.length ? METHOD_DEFLATE : METHOD_STORE;
+    const content = method === METHOD_DEFLATE ? deflated : entry.data;
+    const crc = crc32(entry.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+    local.writeUInt16LE(ZIP_VERSION, 4);
+    local.writeUInt16LE(UTF8_NAMES_FLAG, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt16LE(DOS_TIME, 10);
+    local.writeUInt16LE(DOS_DATE, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(content.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_DIRECTORY_HEADER, 0);
+    central.writeUInt16LE(VERSION_MADE_BY, 4);
+    central.writeUInt16LE(ZIP_VERSION, 6);
+    central.writeUInt16LE(UTF8_NAMES_FLAG, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt16LE(DOS_TIME, 12);
+    central.writeUInt16LE(DOS_DATE, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(content.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(
+      ((entry.executable === true ? EXECUTABLE_MODE : FILE_MODE) << 16) >>> 0,
+      38,
+    );
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, content);
+    centralParts.push(central, name);
+    offset += local.length + name.length + content.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  if (offset > MAX_SIZE) {
+    throw new Error("Archives are limited to 4 GiB");
+  }
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+  end.writeUInt16LE(sorted.length, 8);
+  end.writeUInt16LE(sorted.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
@@ -1,4 +1,13 @@
-import { createToken, fn, type IResolvable, type IResolveContext, raw } from "../core/tokens.js";
+import {
+  createListToken,
+  createMapToken,
+  fn,
+  type IResolvable,
+  type IResolveContext,
+  raw,
+  renderToken,
+  type TokenRegistry,
+} from "../core/tokens.js";
 import type { IInterpolatingParent } from "./terraform-addressable.js";
 
 const TERRAFORM_IDENTIFIER_REGEX = /^[_a-zA-Z][_a-zA-Z0-9]*$/;
@@ -41,8 +50,7 @@ function propertyAccess(expression: unknown, path: (string | number | undefined)
       return `${resolved}${pathStr}`;
     },
     toString(): string {
-      const exprStr = String(expression);
-      return createToken(raw(appendPath(exprStr)));
+      return appendPath(String(expression));
     },
   };
 }
@@ -50,18 +58,14 @@ function propertyAccess(expression: unknown, path: (string | number | undefined)
 class Token {
   static asString(value: IResolvable | string): string {
     if (typeof value === "string") return value;
-    return createToken(
-      raw(
-        String(
-          value.resolve({
-            scope: undefined,
-            preparing: false,
-            originStack: [],
-            registerPostProcessor: () => {},
-            resolve: (v) => v,
-          }),
-        ),
-      ),
+    return String(
+      value.resolve({
+        scope: undefined,
+        preparing: false,
+        originStack: [],
+        registerPostProcessor: () => {},
+        resolve: (v) => v,
+      }),
     );
   }
 
@@ -69,28 +73,28 @@ class Token {
     return Number(Token.asString(value));
   }
 
-  static asList(value: IResolvable): string[] {
-    return [Token.asString(value)];
+  static asList(value: IResolvable, registry: TokenRegistry): string[] {
+    return createListToken(raw(Token.asString(value)), registry);
   }
 
-  static asNumberList(value: IResolvable): number[] {
-    return [Token.asNumber(value)];
+  static asNumberList(value: IResolvable, registry: TokenRegistry): number[] {
+    return createListToken<number>(raw(Token.asString(value)), registry);
   }
 
-  static asStringMap(value: IResolvable): Record<string, string> {
-    return { "": Token.asString(value) };
+  static asStringMap(value: IResolvable, registry: TokenRegistry): Record<string, string> {
+    return createMapToken(raw(Token.asString(value)), registry);
   }
 
-  static asNumberMap(value: IResolvable): Record<string, number> {
-    return { "": Token.asNumber(value) };
+  static asNumberMap(value: IResolvable, registry: TokenRegistry): Record<string, number> {
+    return createMapToken<number>(raw(Token.asString(value)), registry);
   }
 
-  static asBooleanMap(value: IResolvable): Record<string, IResolvable> {
-    return { "": value };
+  static asBooleanMap(value: IResolvable, registry: TokenRegistry): Record<string, IResolvable> {
+    return createMapToken<IResolvable>(raw(Token.asString(value)), registry);
   }
 
-  static asAnyMap(value: IResolvable): Record<string, unknown> {
-    return { "": value };
+  static asAnyMap(value: IResolvable, registry: TokenRegistry): Record<string, unknown> {
+    return Token.asStringMap(value, registry);
   }
 
   static asAny(value: IResolvable): unknown {
@@ -113,10 +117,10 @@ class Fn {
     return {
       creationStack: [],
       resolve(_context: IResolveContext): unknown {
-        return createToken(fn("tolist", resolved));
+        return renderToken(fn("tolist", resolved));
       },
       toString(): string {
-        return createToken(fn("tolist", resolved));
+        return renderToken(fn("tolist", resolved));
       },
     };
   }
@@ -126,11 +130,11 @@ class Fn {
       creationStack: [],
       resolve(_context: IResolveContext): unknown {
         const resolved = typeof list === "string" ? list : list.resolve(_context);
-        return createToken(fn("element", resolved, index));
+        return renderToken(fn("element", resolved, index));
       },
       toString(): string {
         const resolved = typeof list === "string" ? list : list.toString();
-        return createToken(fn("element", resolved, index));
+        return renderToken(fn("element", resolved, index));
       },
     };
   }
@@ -149,6 +153,11 @@ abstract class ComplexResolvable implements IResolvable {
 
   abstract computeFqn(): string;
 
+  // List and map tokens belong to the App of the element that holds the attribute
+  get _tokens(): TokenRegistry {
+    return this.terraformResource._tokens;
+  }
+
   get fqn(): string {
     if (this._fqn === undefined) {
       this._fqn = this.computeFqn();
@@ -179,7 +188,7 @@ abstract class ComplexComputedAttribute extends ComplexResolvable implements IIn
   }
 
   public getListAttribute(attr: string): string[] {
-    return Token.asList(this.interpolationForAttribute(attr));
+    return Token.asList(this.interpolationForAttribute(attr), this._tokens);
   }
 
   public getBooleanAttribute(attr: string): IResolvable {
@@ -187,23 +196,23 @@ abstract class ComplexComputedAttribute extends ComplexResolvable implements IIn
   }
 
   public getNumberListAttribute(attr: string): number[] {
-    return Token.asNumberList(this.interpolationForAttribute(attr));
+    return Token.asNumberList(this.interpolationForAttribute(attr), this._tokens);
   }
 
   public getStringMapAttribute(attr: string): Record<string, string> {
-    return Token.asStringMap(this.interpolationForAttribute(attr));
+    return Token.asStringMap(this.interpolationForAttribute(attr), this._tokens);
   }
 
   public getNumberMapAttribute(attr: string): Record<string, number> {
-    return Token.asNumberMap(this.interpolationForAttribute(attr));
+    return Token.asNumberMap(this.interpolationForAttribute(attr), this._tokens);
   }
 
   public getBooleanMapAttribute(attr: string): Record<string, IResolvable> {
-    return Token.asBooleanMap(this.interpolationForAttribute(attr));
+    return Token.asBooleanMap(this.interpolationForAttribute(attr), this._tokens);
   }
 
   public getAnyMapAttribute(attr: string): Record<string, unknown> {
-    return Token.asAnyMap(this.interpolationForAttribute(attr));
+    return Token.asAnyMap(this.interpolationForAttribute(attr), this._tokens);
   }
 
   public abstract interpolationForAttribute(attr: string): IResolvable;
@@ -301,6 +310,7 @@ export class StringListList extends ComplexList {
   public get(index: number): string[] {
     return Token.asList(
       this.terraformResource.interpolationForAttribute(`${this.terraformAttribute}[${index}]`),
+      this._tokens,
     );
   }
 }
@@ -309,6 +319,7 @@ export class NumberListList extends ComplexList {
   public get(index: number): number[] {
     return Token.asNumberList(
       this.terraformResource.interpolationForAttribute(`${this.terraformAttribute}[${index}]`),
+      this._tokens,
     );
   }
 }
@@ -468,6 +479,7 @@ export class StringListMap extends ComplexMap {
   public get(key: string): string[] {
     return Token.asList(
       this.terraformResource.interpolationForAttribute(`${this.terraformAttribute}[${key}]`),
+      this._tokens,
     );
   }
 }
@@ -476,6 +488,7 @@ export class NumberListMap extends ComplexMap {
   public get(key: string): number[] {
     return Token.asNumberList(
       this.terraformResource.interpolationForAttribute(`${this.terraformAttribute}[${key}]`),
+      this._tokens,
     );
   }
 }
@@ -0,0 +1,11 @@
+import { createNode } from "../core/tree.js";
+import type { ConstructNode } from "../core/types.js";
+import type { Construct } from "./construct.js";
+
+export function buildConstructTree(construct: Construct): ConstructNode {
+  const node = createNode(construct.node.id, construct._path, construct.toConstructMetadata());
+  return {
+    ...node,
+    children: construct.node.children.map(buildConstructTree),
+  };
+}
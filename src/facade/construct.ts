@@ -1,3 +1,6 @@
+import { createTokenRegistry, type TokenRegistry } from "../core/tokens.js";
+import type { ConstructMetadata } from "../core/types.js";
+
 export type IConstruct = {
   readonly node: Node;
 };
@@ -5,7 +8,7 @@ export type IConstruct = {
 export class Node {
   private readonly _construct: Construct;
   private readonly _children: Map<string, Construct> = new Map();
-  private readonly _metadata: Array<{ type: string; data: unknown }> = [];
+  private readonly _metadata: Array<{ type: string; data: unknown; trace?: string[] }> = [];
   private readonly _validations: IValidation[] = [];
   private _context: Record<string, unknown> = {};
 
@@ -98,7 +101,11 @@ export class Node {
     return value;
   }
 
-  addMetadata(type: string, data: unknown): void {
+  addMetadata(type: string, data: unknown, options: MetadataOptions = {}): void {
+    if (options.stackTrace === true) {
+      this._metadata.push({ type, data, trace: captureStackTrace() });
+      return;
+    }
     this._metadata.push({ type, data });
   }
 
@@ -111,6 +118,16 @@ export class Node {
   }
 }
 
+export type MetadataOptions = {
+  readonly stackTrace?: boolean;
+};
+
+function captureStackTrace(): string[] {
+  // Drop the "Error" header and the frames inside addMetadata itself
+  const frames = (new Error().stack ?? "").split("\n").slice(3);
+  return frames.map((frame) => frame.trim());
+}
+
 export type IValidation = {
   validate(): string[];
 };
@@ -124,12 +141,16 @@ export class Construct implements IConstruct {
   readonly _id: string;
   readonly _path: readonly string[];
   readonly _scope: Construct | undefined;
+  // Shared by the whole tree: the root construct, normally the App, owns every token its
+  // constructs create
+  readonly _tokens: TokenRegistry;
   readonly node: Node;
 
   constructor(scope: Construct | undefined, id: string) {
     const sanitizedId = id.replace(/\//g, "--");
     this._id = sanitizedId;
     this._scope = scope;
+    this._tokens = scope?._tokens ?? createTokenRegistry();
 
     if (scope !== undefined) {
       const scopePath = scope._path ?? [];
@@ -147,6 +168,10 @@ export class Construct implements IConstruct {
   toString(): string {
     return this.node.path;
   }
+
+  toConstructMetadata(): ConstructMetadata {
+    return { kind: "construct" };
+  }
 }
 
 import type { ITerraformDependable } from "./terraform-addressable.js";
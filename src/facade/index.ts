@@ -4,13 +4,17 @@ export * from "./aspects.js";
 export * from "./backends/index.js";
 export * from "./complex-computed-list.js";
 export * from "./construct.js";
+export * from "./construct-tree.js";
 export * from "./importable-resource.js";
 export * from "./runtime.js";
 export * from "./terraform-addressable.js";
 export * from "./terraform-asset.js";
 export * from "./terraform-backend.js";
+export * from "./terraform-check.js";
+export type { TerraformCondition } from "./terraform-condition.js";
 export * from "./terraform-data-source.js";
 export * from "./terraform-element.js";
+export * from "./terraform-ephemeral-resource.js";
 export * from "./terraform-functions.js";
 export * from "./terraform-hcl-module.js";
 export * from "./terraform-iterator.js";
@@ -18,9 +22,20 @@ export * from "./terraform-local.js";
 export * from "./terraform-module.js";
 export * from "./terraform-output.js";
 export * from "./terraform-provider.js";
+export type {
+  FileProvisioner,
+  LocalExecProvisioner,
+  RemoteExecProvisioner,
+  TerraformBastionConnection,
+  TerraformConnection,
+  TerraformProvisioner,
+  TerraformSshConnection,
+  TerraformWinrmConnection,
+} from "./terraform-provisioner.js";
 export * from "./terraform-remote-state.js";
 export * from "./terraform-resource.js";
 export * from "./terraform-stack.js";
 export * from "./terraform-variable.js";
 export * from "./tokenization.js";
 export * from "./util.js";
+export * from "./variable-type.js";
@@ -1,3 +1,5 @@
+import type { DependencyGraph } from "../core/graph.js";
+import type { ValidationError } from "../core/types.js";
 import type { TerraformElement } from "./terraform-element.js";
 
 export type StackLike = TerraformElement & {
@@ -8,6 +10,10 @@ export type StackLike = TerraformElement & {
   registerIncomingCrossStackReference(fromStack: StackLike): {
     getString(output: string): string;
   };
+  registerMoveTarget(moveTarget: string, element: TerraformElement): void;
+  findMoveTarget(moveTarget: string): TerraformElement | undefined;
+  referenceErrors(): readonly ValidationError[];
+  dependencyGraph(): DependencyGraph;
 };
 
 const stackRegistry = new WeakMap<object, StackLike>();
@@ -1,4 +1,4 @@
-import type { IResolvable } from "../core/tokens.js";
+import type { IResolvable, TokenRegistry } from "../core/tokens.js";
 
 export type ITerraformDependable = {
   readonly fqn: string;
@@ -6,5 +6,6 @@ export type ITerraformDependable = {
 };
 
 export type IInterpolatingParent = {
+  readonly _tokens: TokenRegistry;
   interpolationForAttribute(terraformAttribute: string): IResolvable;
 };
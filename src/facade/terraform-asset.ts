@@ -1,11 +1,24 @@
 import { createHash } from "node:crypto";
-import { copyFileSync, mkdirSync, readdirSync, readFileSync, statSync } from "node:fs";
+import {
+  copyFileSync,
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "node:fs";
 import { basename, dirname, isAbsolute, join, posix, resolve } from "node:path";
+import { createIgnoreMatcher, type IgnoreMatcher, parseIgnoreFile } from "../core/ignore.js";
+import type { AssetManifest } from "./app.js";
+import { type ArchiveEntry, createArchive } from "./archive.js";
 import { Construct } from "./construct.js";
 import { TerraformStack } from "./terraform-stack.js";
 
 const ASSETS_DIRECTORY = "assets";
 const ARCHIVE_NAME = "archive.zip";
+const IGNORE_FILES = [".tftsignore", ".gitignore"];
 
 export enum AssetType {
   FILE = 0,
@@ -13,15 +26,28 @@ export enum AssetType {
   ARCHIVE = 2,
 }
 
+export enum AssetHashType {
+  // Hash the files that make up the asset
+  SOURCE = 0,
+  // Hash what synth writes, e.g. the bytes of the zip for archives
+  OUTPUT = 1,
+  // Use the assetHash given in the config
+  CUSTOM = 2,
+}
+
 export type TerraformAssetConfig = {
   readonly path: string;
   readonly type?: AssetType;
   readonly assetHash?: string;
+  readonly assetHashType?: AssetHashType;
+  // .gitignore-style patterns, relative to a directory asset, added after its ignore file's
+  readonly exclude?: string[];
 };
 
 export class TerraformAsset extends Construct {
   private _stack: TerraformStack;
   private _sourcePath: string;
+  private _excluded: IgnoreMatcher;
   readonly assetHash: string;
   readonly type: AssetType;
 
@@ -41,7 +67,7 @@ export class TerraformAsset extends Construct {
     const inferredType = stat.isFile() ? AssetType.FILE : AssetType.DIRECTORY;
     this.type = config.type ?? inferredType;
 
-    if (stat.isFile() && this.type !== AssetType.FILE) {
+    if (stat.isFile() && this.type === AssetType.DIRECTORY) {
       throw new Error(`Asset ${id} is a file but type is set to directory`);
     }
 
@@ -49,7 +75,25 @@ export class TerraformAsset extends Construct {
       throw new Error(`Asset ${id} is a directory but type is set to file`);
     }
 
-    this.assetHash = config.assetHash ?? this.computeHash(this._sourcePath);
+    this._excluded = stat.isFile()
+      ? (): boolean => false
+      : createIgnoreMatcher([...ignoreFilePatterns(this._sourcePath), ...(config.exclude ?? [])]);
+
+    const hashType =
+      config.assetHashType ??
+      (config.assetHash !== undefined ? AssetHashType.CUSTOM : AssetHashType.SOURCE);
+    if (hashType === AssetHashType.CUSTOM) {
+      if (config.assetHash === undefined) {
+        throw new Error(`Asset ${id} uses a custom hash but no assetHash is set`);
+      }
+      this.assetHash = config.assetHash;
+    } else {
+      if (config.assetHash !== undefined) {
+        throw new Error(`Asset ${id} sets assetHash, which requires AssetHashType.CUSTOM`);
+      }
+      this.assetHash = this.computeHash(hashType);
+    }
+    this._stack.registerAsset(this);
   }
 
   private get namedFolder(): string {
@@ -82,39 +126,65 @@ export class TerraformAsset extends Construct {
     return this._sourcePath;
   }
 
-  private computeHash(filePath: string): string {
+  private computeHash(hashType: AssetHashType): string {
     const hash = createHash("sha256");
-    const stat = statSync(filePath);
-
-    if (stat.isFile()) {
-      const content = readFileSync(filePath);
-      hash.update(content);
+    if (hashType === AssetHashType.OUTPUT && this.type === AssetType.ARCHIVE) {
+      hash.update(createArchive(this.archiveEntries()));
+    } else if (statSync(this._sourcePath).isFile()) {
+      hash.update(readFileSync(this._sourcePath));
     } else {
-      this.hashDirectory(filePath, hash);
+      // Copied files are the sources themselves, so both hash types agree on directories
+      for (const entry of this.sourceEntries()) {
+        hash.update(entry.name);
+        if (!entry.isDirectory) {
+          hash.update(readFileSync(entry.fullPath));
+        }
+      }
     }
-
     return hash.digest("hex").slice(0, 16);
   }
 
-  private hashDirectory(dirPath: string, hash: ReturnType<typeof createHash>): void {
-    const entries = readdirSync(dirPath, { withFileTypes: true }).sort((a, b) =>
-      a.name.localeCompare(b.name),
-    );
-    for (const entry of entries) {
-      const fullPath = join(dirPath, entry.name);
-      hash.update(entry.name);
-      if (entry.isFile()) {
-        hash.update(readFileSync(fullPath));
-      } else if (entry.isDirectory()) {
-        this.hashDirectory(fullPath, hash);
-      }
-    }
+  // Files and directories below a directory asset, depth first, without the excluded ones
+  private sourceEntries(): SourceEntry[] {
+    const walk = (dirPath: string, prefix: string): SourceEntry[] =>
+      readdirSync(dirPath)
+        .sort((a, b) => a.localeCompare(b))
+        .flatMap((name): SourceEntry[] => {
+          const relativePath = posix.join(prefix, name);
+          const fullPath = join(dirPath, name);
+          // Symlinks are followed, as copying and archiving read their targets
+          const stat = statSync(fullPath);
+          const isDirectory = stat.isDirectory();
+          if ((!isDirectory && !stat.isFile()) || this._excluded(relativePath, isDirectory)) {
+            return [];
+          }
+          const source = { name, relativePath, fullPath, isDirectory };
+          return isDirectory ? [source, ...walk(fullPath, relativePath)] : [source];
+        });
+    return walk(this._sourcePath, "");
+  }
+
+  toManifest(): AssetManifest {
+    const types = {
+      [AssetType.FILE]: "file",
+      [AssetType.DIRECTORY]: "directory",
+      [AssetType.ARCHIVE]: "archive",
+    } as const;
+    return {
+      constructPath: this.node.path,
+      type: types[this.type],
+      sourcePath: this._sourcePath,
+      path: this.path,
+      assetHash: this.assetHash,
+    };
   }
 
   copyToOutputDir(outputDir: string): void {
     const targetPath = join(outputDir, this.path);
     const targetDir = this.type === AssetType.DIRECTORY ? targetPath : dirname(targetPath);
 
+    // Files deleted from a directory asset must not survive from an earlier copy
+    rmSync(join(outputDir, this.namedFolder, this.assetHash), { recursive: true, force: true });
     mkdirSync(targetDir, { recursive: true });
 
     switch (this.type) {
@@ -122,23 +192,53 @@ export class TerraformAsset extends Construct {
         copyFileSync(this._sourcePath, targetPath);
         break;
       case AssetType.DIRECTORY:
-        this.copyDirectory(this._sourcePath, targetPath);
+        this.copyDirectory(targetPath);
         break;
       case AssetType.ARCHIVE:
-        throw new Error("Archive type requires additional implementation");
+        writeFileSync(targetPath, createArchive(this.archiveEntries()));
+        break;
     }
   }
 
-  private copyDirectory(src: string, dest: string): void {
+  // A file is archived on its own; a directory contributes its contents, not itself
+  private archiveEntries(): ArchiveEntry[] {
+    if (statSync(this._sourcePath).isFile()) {
+      return [archiveEntry(this._sourcePath, basename(this._sourcePath))];
+    }
+    return this.sourceEntries().flatMap((entry) =>
+      entry.isDirectory ? [] : [archiveEntry(entry.fullPath, entry.relativePath)],
+    );
+  }
+
+  private copyDirectory(dest: string): void {
     mkdirSync(dest, { recursive: true });
-    for (const entry of readdirSync(src, { withFileTypes: true })) {
-      const srcPath = join(src, entry.name);
-      const destPath = join(dest, entry.name);
-      if (entry.isDirectory()) {
-        this.copyDirectory(srcPath, destPath);
+    for (const entry of this.sourceEntries()) {
+      const destPath = join(dest, entry.relativePath);
+      if (entry.isDirectory) {
+        mkdirSync(destPath, { recursive: true });
       } else {
-        copyFileSync(srcPath, destPath);
+        copyFileSync(entry.fullPath, destPath);
       }
     }
   }
 }
+
+type SourceEntry = {
+  readonly name: string;
+  readonly relativePath: string;
+  readonly fullPath: string;
+  readonly isDirectory: boolean;
+};
+
+// Patterns from an ignore file in the asset directory; .tftsignore takes precedence over .gitignore
+function ignoreFilePatterns(dirPath: string): readonly string[] {
+  const ignoreFile = IGNORE_FILES.map((name) => join(dirPath, name)).find((file) =>
+    existsSync(file),
+  );
+  return ignoreFile !== undefined ? parseIgnoreFile(readFileSync(ignoreFile, "utf-8")) : [];
+}
+
+function archiveEntry(filePath: string, name: string): ArchiveEntry {
+  const executable = (statSync(filePath).mode & 0o111) !== 0;
+  return { name, data: readFileSync(filePath), executable };
+}
@@ -1,3 +1,4 @@
+import type { ConstructMetadata } from "../core/types.js";
 import type { Construct } from "./construct.js";
 import type { ElementKind } from "./terraform-element.js";
 import { TerraformElement } from "./terraform-element.js";
@@ -16,6 +17,20 @@ export abstract class TerraformBackend extends TerraformElement {
     fromStack: string,
   ): TerraformRemoteState;
 
+  override toConstructMetadata(): ConstructMetadata {
+    const terraform = this.toTerraform()["terraform"] as
+      | {
+          backend?: Record<string, Record<string, unknown>>;
+          cloud?: Record<string, unknown>;
+        }
+      | undefined;
+    if (terraform?.cloud !== undefined) {
+      return { kind: "backend", backend: { type: "cloud", config: terraform.cloud } };
+    }
+    const [type = "local", config = {}] = Object.entries(terraform?.backend ?? {})[0] ?? [];
+    return { kind: "backend", backend: { type, config } };
+  }
+
   protected synthesizeAttributes(): Record<string, unknown> {
     return {};
   }
@@ -0,0 +1,74 @@
+import type { ConstructMetadata } from "../core/types.js";
+import type { Construct, IValidation } from "./construct.js";
+import {
+  conditionsToMetadata,
+  conditionsToTerraform,
+  type TerraformCondition,
+} from "./terraform-condition.js";
+import { TerraformDataSource } from "./terraform-data-source.js";
+import type { ElementKind } from "./terraform-element.js";
+import { TerraformElement } from "./terraform-element.js";
+import { deepMerge, type JsonObject } from "./util.js";
+
+export type TerraformCheckConfig = {
+  readonly assert?: TerraformCondition[];
+};
+
+// Data sources created with a check as their scope are synthesized inside the check block.
+// Terraform evaluates them during every plan and reports failures as warnings. Assertions
+// on a scoped data source are added with addAssert once the data source exists.
+export class TerraformCheck extends TerraformElement {
+  readonly kind: ElementKind = "check";
+
+  private readonly _assert: TerraformCondition[];
+
+  constructor(scope: Construct, id: string, config: TerraformCheckConfig = {}) {
+    super(scope, id);
+    this._assert = [...(config.assert ?? [])];
+    this.node.addValidation(new ValidateScopedElements(this));
+  }
+
+  addAssert(assert: TerraformCondition): void {
+    this._assert.push(assert);
+  }
+
+  get scopedDataSources(): TerraformDataSource[] {
+    return this.node.findAll().flatMap((c) => (c instanceof TerraformDataSource ? [c] : []));
+  }
+
+  override toConstructMetadata(): ConstructMetadata {
+    return { kind: "check", check: { assert: conditionsToMetadata(this._assert) ?? [] } };
+  }
+
+  override toTerraform(): Record<string, unknown> {
+    const data = this.scopedDataSources.reduce<JsonObject>(
+      (acc, dataSource) => deepMerge(acc, dataSource.toTerraform()),
+      {},
+    );
+    return {
+      check: {
+        [this.friendlyUniqueId]: {
+          ...data,
+          assert: conditionsToTerraform(this._assert),
+        },
+      },
+    };
+  }
+}
+
+class ValidateScopedElements implements IValidation {
+  constructor(private readonly check: TerraformCheck) {}
+
+  validate(): string[] {
+    return this.check.node.findAll().flatMap((c) => {
+      if (
+        c === this.check ||
+        !(c instanceof TerraformElement) ||
+        c instanceof TerraformDataSource
+      ) {
+        return [];
+      }
+      return [`Only data sources can be declared inside check "${this.check.node.id}"`];
+    });
+  }
+}
@@ -0,0 +1,33 @@
+import type { IResolvable } from "../core/tokens.js";
+import type { ConditionDef } from "../core/types.js";
+
+// A custom condition checked during plan or apply. `condition` must be a boolean expression
+// built from tokens, Fn or Op calls, e.g. Op.gt(Fn.lengthOf(subnet.ids), 0). Strings stay in
+// the type because Fn and Op return encoded token strings and `self` is only reachable through
+// a "${self.id}" interpolation; validation rejects any other literal string.
+export type TerraformCondition = {
+  readonly condition: string | IResolvable;
+  readonly errorMessage: string;
+};
+
+function conditionExpression(condition: string | IResolvable): string {
+  return typeof condition === "string" ? condition : condition.toString();
+}
+
+export function conditionsToTerraform(
+  conditions: readonly TerraformCondition[],
+): Record<string, unknown>[] {
+  return conditions.map((c) => ({
+    condition: conditionExpression(c.condition),
+    error_message: c.errorMessage,
+  }));
+}
+
+export function conditionsToMetadata(
+  conditions: readonly TerraformCondition[] | undefined,
+): readonly ConditionDef[] | undefined {
+  return conditions?.map((c) => ({
+    condition: conditionExpression(c.condition),
+    errorMessage: c.errorMessage,
+  }));
+}
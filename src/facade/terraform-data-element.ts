@@ -0,0 +1,223 @@
+import type { HclBlockHints } from "../core/hcl.js";
+import type { ReferenceTarget } from "../core/references.js";
+import {
+  createListToken,
+  createMapToken,
+  createToken,
+  type IResolvable,
+  type IResolveContext,
+  raw,
+  ref,
+} from "../core/tokens.js";
+import type { DataSourceDef } from "../core/types.js";
+import type { Construct } from "./construct.js";
+import type { IInterpolatingParent, ITerraformDependable } from "./terraform-addressable.js";
+import {
+  conditionsToMetadata,
+  conditionsToTerraform,
+  type TerraformCondition,
+} from "./terraform-condition.js";
+import { TerraformElement } from "./terraform-element.js";
+import type { ITerraformIterator, TerraformCount } from "./terraform-iterator.js";
+import type { TerraformProvider } from "./terraform-provider.js";
+
+// Data sources only accept custom conditions in their lifecycle block
+export type TerraformDataSourceLifecycle = {
+  readonly precondition?: TerraformCondition[];
+  readonly postcondition?: TerraformCondition[];
+};
+
+export type TerraformDataSourceMetaArguments = {
+  readonly dependsOn?: ITerraformDependable[];
+  readonly count?: number | TerraformCount;
+  readonly provider?: TerraformProvider;
+  readonly lifecycle?: TerraformDataSourceLifecycle;
+  readonly forEach?: ITerraformIterator;
+};
+
+export type TerraformDataElementConfig = TerraformDataSourceMetaArguments & {
+  readonly terraformResourceType: string;
+  readonly terraformGeneratorMetadata?: {
+    readonly providerName: string;
+    readonly providerVersion?: string;
+    readonly blockTypes?: readonly string[];
+    // Top-level attribute and block names, used to check references when validating
+    readonly attributes?: readonly string[];
+  };
+};
+
+// Data sources and ephemeral resources take the same meta-arguments and are only read by
+// Terraform; they differ in the top-level block they are written to
+export abstract class TerraformDataElement
+  extends TerraformElement
+  implements ITerraformDependable, IInterpolatingParent
+{
+  public readonly terraformResourceType: string;
+  public readonly terraformGeneratorMetadata?: {
+    readonly providerName: string;
+    readonly providerVersion?: string;
+    readonly blockTypes?: readonly string[];
+    readonly attributes?: readonly string[];
+  };
+
+  public dependsOn?: string[];
+  public count?: number | TerraformCount;
+  public provider?: TerraformProvider;
+  public lifecycle?: TerraformDataSourceLifecycle;
+  public forEach?: ITerraformIterator;
+
+  private readonly blockType: "data" | "ephemeral";
+
+  constructor(
+    scope: Construct,
+    id: string,
+    blockType: "data" | "ephemeral",
+    config: TerraformDataElementConfig,
+  ) {
+    super(scope, id, `${blockType}.${config.terraformResourceType}`);
+
+    this.blockType = blockType;
+    this.terraformResourceType = config.terraformResourceType;
+    this.terraformGeneratorMetadata = config.terraformGeneratorMetadata;
+
+    if (config.dependsOn !== undefined) {
+      this.dependsOn = config.dependsOn.map((d) => d.rawFqn);
+    }
+    this.count = config.count;
+    this.provider = config.provider;
+    this.lifecycle = config.lifecycle;
+    this.forEach = config.forEach;
+  }
+
+  interpolationForAttribute(attribute: string): IResolvable {
+    const suffix = this.forEach !== undefined ? ".*" : "";
+    const token = ref(`${this.rawFqn}${suffix}`, attribute);
+    const tokenStr = createToken(token, this._tokens);
+    return {
+      creationStack: [],
+      resolve(_context: IResolveContext): unknown {
+        return tokenStr;
+      },
+      toString(): string {
+        return tokenStr;
+      },
+    };
+  }
+
+  getStringAttribute(attribute: string): string {
+    return this.interpolationForAttribute(attribute).toString();
+  }
+
+  getNumberAttribute(attribute: string): number {
+    return Number(this.interpolationForAttribute(attribute).toString());
+  }
+
+  getListAttribute(attribute: string): string[] {
+    return createListToken(raw(this.getStringAttribute(attribute)), this._tokens);
+  }
+
+  getBooleanAttribute(attribute: string): IResolvable {
+    return this.interpolationForAttribute(attribute);
+  }
+
+  getStringMapAttribute(attribute: string): Record<string, string> {
+    return createMapToken(raw(this.getStringAttribute(attribute)), this._tokens);
+  }
+
+  getNumberMapAttribute(attribute: string): Record<string, number> {
+    return createMapToken<number>(raw(this.getStringAttribute(attribute)), this._tokens);
+  }
+
+  getBooleanMapAttribute(attribute: string): Record<string, IResolvable> {
+    return createMapToken<IResolvable>(raw(this.getStringAttribute(attribute)), this._tokens);
+  }
+
+  getNumberListAttribute(attribute: string): number[] {
+    return createListToken<number>(raw(this.getStringAttribute(attribute)), this._tokens);
+  }
+
+  protected synthesizeAttributes(): Record<string, unknown> {
+    return {};
+  }
+
+  private get terraformMetaArguments(): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    if (this.dependsOn !== undefined && this.dependsOn.length > 0) {
+      result["depends_on"] = this.dependsOn;
+    }
+    if (this.count !== undefined) {
+      result["count"] = typeof this.count === "number" ? this.count : this.count.toNumber();
+    }
+    if (this.provider !== undefined) {
+      result["provider"] = this.provider.fqn;
+    }
+    if (this.lifecycle !== undefined) {
+      result["lifecycle"] = this.synthesizeLifecycle();
+    }
+    if (this.forEach !== undefined) {
+      result["for_each"] = this.forEach._getForEachExpression();
+    }
+    return result;
+  }
+
+  private synthesizeLifecycle(): Record<string, unknown> {
+    if (this.lifecycle === undefined) {
+      return {};
+    }
+
+    const result: Record<string, unknown> = {};
+    if (this.lifecycle.precondition !== undefined && this.lifecycle.precondition.length > 0) {
+      result["precondition"] = conditionsToTerraform(this.lifecycle.precondition);
+    }
+    if (this.lifecycle.postcondition !== undefined && this.lifecycle.postcondition.length > 0) {
+      result["postcondition"] = conditionsToTerraform(this.lifecycle.postcondition);
+    }
+    return result;
+  }
+
+  override toTerraform(): Record<string, unknown> {
+    const attributes = {
+      ...this.synthesizeAttributes(),
+      ...this.terraformMetaArguments,
+      ...this.rawOverrides,
+    };
+
+    return {
+      [this.blockType]: {
+        [this.terraformResourceType]: {
+          [this.friendlyUniqueId]: attributes,
+        },
+      },
+    };
+  }
+
+  protected toDataSourceDef(): DataSourceDef {
+    return {
+      terraformResourceType: this.terraformResourceType,
+      provider: this.provider?.fqn,
+      dependsOn: this.dependsOn,
+      count: typeof this.count === "object" ? this.count.toNumber() : this.count,
+      forEach: this.forEach?._getForEachExpression(),
+      lifecycle:
+        this.lifecycle !== undefined
+          ? {
+              precondition: conditionsToMetadata(this.lifecycle.precondition),
+              postcondition: conditionsToMetadata(this.lifecycle.postcondition),
+            }
+          : undefined,
+      config: this.synthesizeAttributes(),
+    };
+  }
+
+  override toReferenceTargets(): Record<string, ReferenceTarget> {
+    return { [this.rawFqn]: { attributes: this.terraformGeneratorMetadata?.attributes } };
+  }
+
+  override toHclBlockHints(): HclBlockHints {
+    const blockTypes = this.terraformGeneratorMetadata?.blockTypes;
+    if (blockTypes === undefined) {
+      return {};
+    }
+    return { [this.rawFqn]: blockTypes };
+  }
+}
@@ -1,3 +1,5 @@
+import type { HclBlockHints } from "../core/hcl.js";
+import type { ReferenceTarget } from "../core/references.js";
 import { generateLogicalId } from "../core/synthesize.js";
 import { createToken, ref } from "../core/tokens.js";
 import { Construct } from "./construct.js";
@@ -6,6 +8,7 @@ export type ElementKind =
   | "stack"
   | "resource"
   | "data-source"
+  | "ephemeral-resource"
   | "provider"
   | "backend"
   | "output"
@@ -13,7 +16,8 @@ export type ElementKind =
   | "local"
   | "module"
   | "remote-state"
-  | "import";
+  | "import"
+  | "check";
 
 export type TerraformElementMetadata = {
   readonly path: string;
@@ -70,7 +74,7 @@ export abstract class TerraformElement extends Construct {
         throw new Error("Element type not set");
       }
       const token = ref(`${this._elementType}.${this.friendlyUniqueId}`, "");
-      this._fqnToken = createToken(token);
+      this._fqnToken = createToken(token, this._tokens);
     }
     return this._fqnToken;
   }
@@ -127,6 +131,15 @@ export abstract class TerraformElement extends Construct {
     return {};
   }
 
+  toHclBlockHints(): HclBlockHints {
+    return {};
+  }
+
+  // Addresses this element can be referenced by, keyed like HCL block hints
+  toReferenceTargets(): Record<string, ReferenceTarget> {
+    return {};
+  }
+
   protected get constructNodeMetadata(): TerraformElementMetadata {
     return {
       path: this.node.path,
@@ -0,0 +1,28 @@
+import type { ConstructMetadata } from "../core/types.js";
+import type { Construct } from "./construct.js";
+import {
+  type TerraformDataElementConfig,
+  TerraformDataElement,
+  type TerraformDataSourceMetaArguments,
+} from "./terraform-data-element.js";
+import type { ElementKind } from "./terraform-element.js";
+
+// Ephemeral resources take the same meta-arguments as data sources
+export type TerraformEphemeralResourceMetaArguments = TerraformDataSourceMetaArguments;
+
+export type TerraformEphemeralResourceConfig = TerraformDataElementConfig;
+
+// An ephemeral resource is opened for each Terraform run and never persisted to plan or
+// state, so its attributes can only feed other ephemeral values, provider configuration
+// and write-only attributes.
+export class TerraformEphemeralResource extends TerraformDataElement {
+  readonly kind: ElementKind = "ephemeral-resource";
+
+  constructor(scope: Construct, id: string, config: TerraformEphemeralResourceConfig) {
+    super(scope, id, "ephemeral", config);
+  }
+
+  override toConstructMetadata(): ConstructMetadata {
+    return { kind: "ephemeral-resource", ephemeralResource: this.toDataSourceDef() };
+  }
+}
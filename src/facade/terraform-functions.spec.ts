@@ -1,9 +1,13 @@
 import { describe, expect, test } from "bun:test";
-import { resolveTokens, type Token, tokenToString } from "../core/tokens.js";
+import { createTokenRegistry, resolveTokens, type Token, tokenToString } from "../core/tokens.js";
 import { Fn, Op } from "./terraform-functions.js";
 
 function resolveFn(value: string): string {
-  const result = resolveTokens(value, (token: Token) => tokenToString(token));
+  const result = resolveTokens(
+    value,
+    (token: Token) => tokenToString(token),
+    createTokenRegistry(),
+  );
   if (typeof result !== "string") {
     return String(result);
   }
@@ -1,4 +1,11 @@
-import { createToken, fn, raw } from "../core/tokens.js";
+import {
+  asCollectionToken,
+  asNumberToken,
+  createConstantToken,
+  fn,
+  renderToken,
+} from "../core/tokens.js";
+import { Tokenization } from "./tokenization.js";
 
 type Expression = string | number | boolean | unknown[] | Record<string, unknown> | IResolvable;
 
@@ -18,7 +25,7 @@ class FunctionCallExpression implements IResolvable {
   }
 
   toString(): string {
-    return createToken(fn(this.name, ...this.args));
+    return renderToken(fn(this.name, ...this.args));
   }
 
   private toTerraformExpression(): string {
@@ -38,7 +45,7 @@ class PropertyAccessExpression implements IResolvable {
   }
 
   toString(): string {
-    return createToken(raw(this.toTerraformExpression()));
+    return this.toTerraformExpression();
   }
 
   private toTerraformExpression(): string {
@@ -66,7 +73,7 @@ class ConditionalExpression implements IResolvable {
   }
 
   toString(): string {
-    return createToken(raw(this.toTerraformExpression()));
+    return this.toTerraformExpression();
   }
 
   private toTerraformExpression(): string {
@@ -89,7 +96,7 @@ class OperatorExpression implements IResolvable {
   }
 
   toString(): string {
-    return createToken(raw(this.toTerraformExpression()));
+    return this.toTerraformExpression();
   }
 
   private toTerraformExpression(): string {
@@ -112,8 +119,10 @@ class RawStringExpression implements IResolvable {
     return this.toTerraformExpression();
   }
 
+  // A quoted literal is not recognizable as an expression, so it stays a token; it holds no
+  // markers and can be shared by every App
   toString(): string {
-    return createToken(raw(this.toTerraformExpression()));
+    return createConstantToken(this.toTerraformExpression());
   }
 
   private toTerraformExpression(): string {
@@ -130,19 +139,26 @@ function expressionToString(expr: unknown): string {
   if (expr === null) return "null";
   if (expr === undefined) return "null";
   if (typeof expr === "boolean") return expr ? "true" : "false";
-  if (typeof expr === "number") return String(expr);
+  if (typeof expr === "number") {
+    const token = asNumberToken(expr);
+    return token !== null ? renderToken(token) : String(expr);
+  }
   if (typeof expr === "string") {
     // Check if it's already a terraform expression
     if (expr.startsWith("${") && expr.endsWith("}")) {
       return expr;
     }
-    // Check if it contains token markers
-    if (expr.includes("${TfToken[")) {
+    // Check if it contains token markers, including those kept in rendered Fn and Op calls
+    if (expr.includes("TfToken[")) {
       // Resolve the token to get the terraform expression
       return expr;
     }
     return `"${escapeString(expr)}"`;
   }
+  const collection = asCollectionToken(expr);
+  if (collection !== null) {
+    return renderToken(collection);
+  }
   if (Array.isArray(expr)) {
     return `[${expr.map(expressionToString).join(", ")}]`;
   }
@@ -161,6 +177,10 @@ function expressionToString(expr: unknown): string {
   if (expr instanceof RawStringExpression) {
     return expr.toString();
   }
+  // Other resolvables, such as boolean attributes, render as the token their toString() holds
+  if (Tokenization.isResolvable(expr)) {
+    return String(expr);
+  }
   if (typeof expr === "object") {
     const entries = Object.entries(expr);
     const parts = entries.map(([k, v]) => `"${k}" = ${expressionToString(v)}`);
@@ -1,4 +1,4 @@
-import type { IResolvable, IResolveContext } from "../core/tokens.js";
+import { createListToken, type IResolvable, type IResolveContext, raw } from "../core/tokens.js";
 import type { Construct } from "./construct.js";
 import { TerraformModule, type TerraformModuleConfig } from "./terraform-module.js";
 
@@ -44,7 +44,7 @@ export class TerraformHclModule extends TerraformModule {
   }
 
   getList(output: string): string[] {
-    return [this.interpolationForOutput(output)];
+    return createListToken(raw(this.interpolationForOutput(output)), this._tokens);
   }
 
   protected override synthesizeAttributes(): Record<string, unknown> {
@@ -1,4 +1,9 @@
-import { createToken, fn as fnToken, lazy } from "../core/tokens.js";
+import {
+  createConstantListToken,
+  createConstantToken,
+  fn as fnToken,
+  renderToken,
+} from "../core/tokens.js";
 
 export type ITerraformIterator = {
   _getForEachExpression(): unknown;
@@ -16,7 +21,7 @@ export abstract class TerraformIterator implements ITerraformIterator {
   }
 
   getString(attribute: string): string {
-    return createToken(lazy(() => `each.value.${attribute}`));
+    return createConstantToken(`each.value.${attribute}`);
   }
 
   getNumber(attribute: string): number {
@@ -28,25 +33,25 @@ export abstract class TerraformIterator implements ITerraformIterator {
   }
 
   getList(attribute: string): string[] {
-    return [this.getString(attribute)];
+    return createConstantListToken(`each.value.${attribute}`);
   }
 
   get key(): string {
-    return createToken(lazy(() => "each.key"));
+    return createConstantToken("each.key");
   }
 
   get value(): string {
-    return createToken(lazy(() => "each.value"));
+    return createConstantToken("each.value");
   }
 
   keys(): string {
     const expr = this._getForEachExpression();
-    return createToken(fnToken("keys", [expr]));
+    return renderToken(fnToken("keys", [expr]));
   }
 
   values(): string {
     const expr = this._getForEachExpression();
-    return createToken(fnToken("values", [expr]));
+    return renderToken(fnToken("values", [expr]));
   }
 
   dynamic(attributes: Record<string, unknown>): DynamicBlock {
@@ -94,7 +99,7 @@ export class TerraformCount {
   }
 
   get index(): string {
-    return createToken(lazy(() => "count.index"));
+    return createConstantToken("count.index");
   }
 
   toNumber(): number | string {
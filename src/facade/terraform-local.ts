@@ -1,4 +1,5 @@
-import { createToken, ref } from "../core/tokens.js";
+import { createListToken, createToken, ref } from "../core/tokens.js";
+import type { ConstructMetadata } from "../core/types.js";
 import type { Construct } from "./construct.js";
 import type { ElementKind } from "./terraform-element.js";
 import { TerraformElement } from "./terraform-element.js";
@@ -23,7 +24,7 @@ export class TerraformLocal extends TerraformElement {
 
   get asString(): string {
     const token = ref(`local`, this.friendlyUniqueId);
-    return createToken(token);
+    return createToken(token, this._tokens);
   }
 
   get asNumber(): number {
@@ -35,7 +36,11 @@ export class TerraformLocal extends TerraformElement {
   }
 
   get asList(): string[] {
-    return [this.asString];
+    return createListToken(ref(`local`, this.friendlyUniqueId), this._tokens);
+  }
+
+  override toConstructMetadata(): ConstructMetadata {
+    return { kind: "local", local: { expression: this._expression } };
   }
 
   override toTerraform(): Record<string, unknown> {
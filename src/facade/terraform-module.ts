@@ -1,4 +1,5 @@
 import { createToken, ref } from "../core/tokens.js";
+import type { ConstructMetadata } from "../core/types.js";
 import type { Construct } from "./construct.js";
 import type { ElementKind } from "./terraform-element.js";
 import { TerraformElement } from "./terraform-element.js";
@@ -54,7 +55,7 @@ export abstract class TerraformModule extends TerraformElement {
   interpolationForOutput(moduleOutput: string): string {
     const suffix = this.forEach !== undefined ? ".*" : "";
     const token = ref(`module.${this.friendlyUniqueId}${suffix}`, moduleOutput);
-    return createToken(token);
+    return createToken(token, this._tokens);
   }
 
   getString(output: string): string {
@@ -78,6 +79,20 @@ export abstract class TerraformModule extends TerraformElement {
     );
   }
 
+  override toConstructMetadata(): ConstructMetadata {
+    return {
+      kind: "module",
+      module: {
+        source: this.source,
+        version: this.version,
+        providers: this.synthesizeProviders(),
+        dependsOn: this.dependsOn,
+        forEach: this.forEach,
+        variables: this.synthesizeAttributes(),
+      },
+    };
+  }
+
   override toTerraform(): Record<string, unknown> {
     const base: Record<string, unknown> = {
       ...this.synthesizeAttributes(),
@@ -1,4 +1,10 @@
+import type { ConstructMetadata } from "../core/types.js";
 import type { Construct } from "./construct.js";
+import {
+  conditionsToMetadata,
+  conditionsToTerraform,
+  type TerraformCondition,
+} from "./terraform-condition.js";
 import type { ElementKind } from "./terraform-element.js";
 import { TerraformElement } from "./terraform-element.js";
 
@@ -6,7 +12,10 @@ export type TerraformOutputConfig = {
   readonly value: unknown;
   readonly description?: string;
   readonly sensitive?: boolean;
+  // Terraform only accepts ephemeral outputs in child modules, not in a stack's root module
+  readonly ephemeral?: boolean;
   readonly dependsOn?: string[];
+  readonly precondition?: TerraformCondition[];
 };
 
 export class TerraformOutput extends TerraformElement {
@@ -15,7 +24,9 @@ export class TerraformOutput extends TerraformElement {
   private readonly _value: unknown;
   private readonly _description?: string;
   private readonly _sensitive?: boolean;
+  private readonly _ephemeral?: boolean;
   private readonly _dependsOn?: string[];
+  private readonly _precondition?: TerraformCondition[];
 
   constructor(scope: Construct, id: string, config: TerraformOutputConfig) {
     super(scope, id);
@@ -23,13 +34,29 @@ export class TerraformOutput extends TerraformElement {
     this._value = config.value;
     this._description = config.description;
     this._sensitive = config.sensitive;
+    this._ephemeral = config.ephemeral;
     this._dependsOn = config.dependsOn;
+    this._precondition = config.precondition;
   }
 
   get value(): unknown {
     return this._value;
   }
 
+  override toConstructMetadata(): ConstructMetadata {
+    return {
+      kind: "output",
+      output: {
+        value: this._value,
+        description: this._description,
+        sensitive: this._sensitive,
+        ephemeral: this._ephemeral,
+        dependsOn: this._dependsOn,
+        precondition: conditionsToMetadata(this._precondition),
+      },
+    };
+  }
+
   override toTerraform(): Record<string, unknown> {
     const result: Record<string, unknown> = {
       value: this._value,
@@ -40,9 +67,15 @@ export class TerraformOutput extends TerraformElement {
     if (this._sensitive !== undefined) {
       result["sensitive"] = this._sensitive;
     }
+    if (this._ephemeral !== undefined) {
+      result["ephemeral"] = this._ephemeral;
+    }
     if (this._dependsOn !== undefined && this._dependsOn.length > 0) {
       result["depends_on"] = this._dependsOn;
     }
+    if (this._precondition !== undefined && this._precondition.length > 0) {
+      result["precondition"] = conditionsToTerraform(this._precondition);
+    }
     return {
       output: {
         [this.friendlyUniqueId]: result,
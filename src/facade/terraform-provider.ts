@@ -1,3 +1,5 @@
+import type { HclBlockHints } from "../core/hcl.js";
+import type { ConstructMetadata } from "../core/types.js";
 import type { Construct } from "./construct.js";
 import type { ElementKind } from "./terraform-element.js";
 import { TerraformElement } from "./terraform-element.js";
@@ -8,6 +10,7 @@ export type TerraformProviderConfig = {
   readonly terraformGeneratorMetadata?: {
     readonly providerName: string;
     readonly providerVersion?: string;
+    readonly blockTypes?: readonly string[];
   };
   readonly alias?: string;
 };
@@ -21,6 +24,7 @@ export abstract class TerraformProvider extends TerraformElement {
   public readonly terraformGeneratorMetadata?: {
     readonly providerName: string;
     readonly providerVersion?: string;
+    readonly blockTypes?: readonly string[];
   };
 
   constructor(scope: Construct, id: string, config: TerraformProviderConfig) {
@@ -65,6 +69,26 @@ export abstract class TerraformProvider extends TerraformElement {
     };
   }
 
+  override toConstructMetadata(): ConstructMetadata {
+    return {
+      kind: "provider",
+      provider: {
+        terraformProviderSource: this.terraformProviderSource,
+        version: this.terraformGeneratorMetadata?.providerVersion,
+        alias: this.alias,
+        config: this.synthesizeAttributes(),
+      },
+    };
+  }
+
+  override toHclBlockHints(): HclBlockHints {
+    const blockTypes = this.terraformGeneratorMetadata?.blockTypes;
+    if (blockTypes === undefined) {
+      return {};
+    }
+    return { [`provider.${this.terraformResourceType}`]: blockTypes };
+  }
+
   protected synthesizeAttributes(): Record<string, unknown> {
     return {};
   }
@@ -0,0 +1,177 @@
+import type { ConnectionDef, ProvisionerDef } from "../core/types.js";
+
+export type TerraformBastionConnection = {
+  readonly host: string;
+  readonly hostKey?: string;
+  readonly port?: number;
+  readonly user?: string;
+  readonly password?: string;
+  readonly privateKey?: string;
+  readonly certificate?: string;
+};
+
+export type TerraformSshConnection = {
+  readonly type?: "ssh";
+  readonly host: string;
+  readonly user?: string;
+  readonly password?: string;
+  readonly port?: number;
+  readonly timeout?: string;
+  readonly scriptPath?: string;
+  readonly privateKey?: string;
+  readonly certificate?: string;
+  readonly agent?: boolean;
+  readonly agentIdentity?: string;
+  readonly hostKey?: string;
+  readonly targetPlatform?: "unix" | "windows";
+  readonly bastion?: TerraformBastionConnection;
+};
+
+export type TerraformWinrmConnection = {
+  readonly type: "winrm";
+  readonly host: string;
+  readonly user?: string;
+  readonly password?: string;
+  readonly port?: number;
+  readonly timeout?: string;
+  readonly scriptPath?: string;
+  readonly https?: boolean;
+  readonly insecure?: boolean;
+  readonly useNtlm?: boolean;
+  readonly cacert?: string;
+};
+
+export type TerraformConnection = TerraformSshConnection | TerraformWinrmConnection;
+
+type ProvisionerOptions = {
+  readonly when?: "create" | "destroy";
+  readonly onFailure?: "continue" | "fail";
+};
+
+export type LocalExecProvisioner = ProvisionerOptions & {
+  readonly type: "local-exec";
+  readonly command: string;
+  readonly workingDir?: string;
+  readonly interpreter?: string[];
+  readonly environment?: Record<string, string>;
+  readonly quiet?: boolean;
+};
+
+export type RemoteExecProvisioner = ProvisionerOptions & {
+  readonly type: "remote-exec";
+  readonly inline?: string[];
+  readonly script?: string;
+  readonly scripts?: string[];
+  readonly connection?: TerraformConnection;
+};
+
+export type FileProvisioner = ProvisionerOptions & {
+  readonly type: "file";
+  readonly destination: string;
+  readonly source?: string;
+  readonly content?: string;
+  readonly connection?: TerraformConnection;
+};
+
+export type TerraformProvisioner = LocalExecProvisioner | RemoteExecProvisioner | FileProvisioner;
+
+// Terraform expects bastion settings as flat bastion_* keys on the connection block
+export function connectionToTerraform(connection: TerraformConnection): Record<string, unknown> {
+  const common = {
+    type: connection.type,
+    host: connection.host,
+    user: connection.user,
+    password: connection.password,
+    port: connection.port,
+    timeout: connection.timeout,
+    script_path: connection.scriptPath,
+  };
+  const specific =
+    connection.type === "winrm"
+      ? {
+          https: connection.https,
+          insecure: connection.insecure,
+          use_ntlm: connection.useNtlm,
+          cacert: connection.cacert,
+        }
+      : {
+          private_key: connection.privateKey,
+          certificate: connection.certificate,
+          agent: connection.agent,
+          agent_identity: connection.agentIdentity,
+          host_key: connection.hostKey,
+          target_platform: connection.targetPlatform,
+          bastion_host: connection.bastion?.host,
+          bastion_host_key: connection.bastion?.hostKey,
+          bastion_port: connection.bastion?.port,
+          bastion_user: connection.bastion?.user,
+          bastion_password: connection.bastion?.password,
+          bastion_private_key: connection.bastion?.privateKey,
+          bastion_certificate: connection.bastion?.certificate,
+        };
+  return withoutUndefined({ ...common, ...specific });
+}
+
+function provisionerSettings(provisioner: TerraformProvisioner): Record<string, unknown> {
+  switch (provisioner.type) {
+    case "local-exec":
+      return {
+        command: provisioner.command,
+        working_dir: provisioner.workingDir,
+        interpreter: provisioner.interpreter,
+        environment: provisioner.environment,
+        quiet: provisioner.quiet,
+      };
+    case "remote-exec":
+      return {
+        inline: provisioner.inline,
+        script: provisioner.script,
+        scripts: provisioner.scripts,
+      };
+    case "file":
+      return {
+        source: provisioner.source,
+        content: provisioner.content,
+        destination: provisioner.destination,
+      };
+  }
+}
+
+function provisionerConnection(provisioner: TerraformProvisioner): TerraformConnection | undefined {
+  return provisioner.type === "local-exec" ? undefined : provisioner.connection;
+}
+
+export function provisionersToTerraform(
+  provisioners: readonly TerraformProvisioner[],
+): Record<string, unknown>[] {
+  return provisioners.map((provisioner) => {
+    const connection = provisionerConnection(provisioner);
+    return {
+      [provisioner.type]: withoutUndefined({
+        ...provisionerSettings(provisioner),
+        when: provisioner.when,
+        on_failure: provisioner.onFailure,
+        connection: connection !== undefined ? connectionToTerraform(connection) : undefined,
+      }),
+    };
+  });
+}
+
+export function provisionersToMetadata(
+  provisioners: readonly TerraformProvisioner[] | undefined,
+): readonly ProvisionerDef[] | undefined {
+  return provisioners?.map((provisioner) => {
+    const connection: ConnectionDef | undefined = provisionerConnection(provisioner);
+    return {
+      type: provisioner.type,
+      config: withoutUndefined(provisionerSettings(provisioner)),
+      when: provisioner.when,
+      onFailure: provisioner.onFailure,
+      connection,
+    };
+  });
+}
+
+function withoutUndefined(record: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(record).filter(([, value]) => value !== undefined));
+}
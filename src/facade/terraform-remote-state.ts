@@ -1,4 +1,6 @@
-import { createToken, ref } from "../core/tokens.js";
+import type { ReferenceTarget } from "../core/references.js";
+import { createListToken, createToken, raw, ref } from "../core/tokens.js";
+import type { ConstructMetadata } from "../core/types.js";
 import type { Construct } from "./construct.js";
 import type { ElementKind } from "./terraform-element.js";
 import { TerraformElement } from "./terraform-element.js";
@@ -27,7 +29,7 @@ export abstract class TerraformRemoteState extends TerraformElement {
 
   get(output: string): string {
     const token = ref(`data.terraform_remote_state.${this.friendlyUniqueId}`, `outputs.${output}`);
-    return createToken(token);
+    return createToken(token, this._tokens);
   }
 
   getString(output: string): string {
@@ -39,13 +41,32 @@ export abstract class TerraformRemoteState extends TerraformElement {
   }
 
   getList(output: string): string[] {
-    return [this.get(output)];
+    return createListToken(raw(this.get(output)), this._tokens);
   }
 
   getBoolean(output: string): boolean {
     return Boolean(this.get(output));
   }
 
+  override toReferenceTargets(): Record<string, ReferenceTarget> {
+    return { [this.rawFqn]: {} };
+  }
+
+  override toConstructMetadata(): ConstructMetadata {
+    return {
+      kind: "datasource",
+      datasource: {
+        terraformResourceType: "terraform_remote_state",
+        config: {
+          backend: this._backend,
+          config: this._config,
+          workspace: this._workspace,
+          defaults: this._defaults,
+        },
+      },
+    };
+  }
+
   override toTerraform(): Record<string, unknown> {
     const config: Record<string, unknown> = {
       backend: this._backend,
@@ -1,10 +1,34 @@
-import { createToken, type IResolvable, type IResolveContext, ref } from "../core/tokens.js";
-import type { Construct } from "./construct.js";
+import type { HclBlockHints } from "../core/hcl.js";
+import type { ReferenceTarget } from "../core/references.js";
+import {
+  createListToken,
+  createMapToken,
+  createToken,
+  type IResolvable,
+  type IResolveContext,
+  raw,
+  ref,
+} from "../core/tokens.js";
+import type { ConstructMetadata } from "../core/types.js";
+import type { Construct, IValidation } from "./construct.js";
+import { getStack, type StackLike } from "./stack-registry.js";
 import type { IInterpolatingParent, ITerraformDependable } from "./terraform-addressable.js";
+import {
+  conditionsToMetadata,
+  conditionsToTerraform,
+  type TerraformCondition,
+} from "./terraform-condition.js";
 import type { ElementKind } from "./terraform-element.js";
 import { TerraformElement } from "./terraform-element.js";
 import type { ITerraformIterator, TerraformCount } from "./terraform-iterator.js";
 import type { TerraformProvider } from "./terraform-provider.js";
+import {
+  connectionToTerraform,
+  provisionersToMetadata,
+  provisionersToTerraform,
+  type TerraformConnection,
+  type TerraformProvisioner,
+} from "./terraform-provisioner.js";
 import { deepMerge, type JsonObject } from "./util.js";
 
 export type { ITerraformDependable } from "./terraform-addressable.js";
@@ -14,6 +38,8 @@ export type TerraformResourceLifecycle = {
   readonly preventDestroy?: boolean;
   readonly ignoreChanges?: string[] | "all";
   readonly replaceTriggeredBy?: string[];
+  readonly precondition?: TerraformCondition[];
+  readonly postcondition?: TerraformCondition[];
 };
 
 export type TerraformMetaArguments = {
@@ -22,6 +48,9 @@ export type TerraformMetaArguments = {
   readonly provider?: TerraformProvider;
   readonly lifecycle?: TerraformResourceLifecycle;
   readonly forEach?: ITerraformIterator;
+  readonly provisioners?: TerraformProvisioner[];
+  // Default connection for provisioners that do not declare their own
+  readonly connection?: TerraformConnection;
 };
 
 export type TerraformResourceConfig = TerraformMetaArguments & {
@@ -29,6 +58,9 @@ export type TerraformResourceConfig = TerraformMetaArguments & {
   readonly terraformGeneratorMetadata?: {
     readonly providerName: string;
     readonly providerVersion?: string;
+    readonly blockTypes?: readonly string[];
+    // Top-level attribute and block names, used to check references when validating
+    readonly attributes?: readonly string[];
   };
 };
 
@@ -57,6 +89,8 @@ export class TerraformResource
   public readonly terraformGeneratorMetadata?: {
     readonly providerName: string;
     readonly providerVersion?: string;
+    readonly blockTypes?: readonly string[];
+    readonly attributes?: readonly string[];
   };
 
   public dependsOn?: string[];
@@ -64,9 +98,12 @@ export class TerraformResource
   public provider?: TerraformProvider;
   public lifecycle?: TerraformResourceLifecycle;
   public forEach?: ITerraformIterator;
+  public provisioners?: TerraformProvisioner[];
+  public connection?: TerraformConnection;
   private _imported?: TerraformResourceImport;
   private _movedByTarget?: TerraformResourceMoveByTarget;
   private _movedById?: TerraformResourceMoveById;
+  private _removedFromState = false;
 
   constructor(scope: Construct, id: string, config: TerraformResourceConfig) {
     super(scope, id, config.terraformResourceType);
@@ -81,6 +118,8 @@ export class TerraformResource
     this.provider = config.provider;
     this.lifecycle = config.lifecycle;
     this.forEach = config.forEach;
+    this.provisioners = config.provisioners;
+    this.connection = config.connection;
   }
 
   importFrom(id: string, provider?: TerraformProvider): void {
@@ -88,6 +127,9 @@ export class TerraformResource
   }
 
   moveTo(moveTarget: string, index?: string | number): void {
+    if (this._movedByTarget === undefined && !this._removedFromState) {
+      this.node.addValidation(new ValidateStateRefactoring(this, this.stack));
+    }
     this._movedByTarget = { moveTarget, index };
   }
 
@@ -105,12 +147,53 @@ export class TerraformResource
     };
   }
 
-  addMoveTarget(_moveTarget: string): void {}
+  addMoveTarget(moveTarget: string): void {
+    this.stack.registerMoveTarget(moveTarget, this);
+  }
+
+  // Forgets the resource without destroying the real infrastructure object
+  removeFromState(): void {
+    if (this._movedByTarget === undefined && !this._removedFromState) {
+      this.node.addValidation(new ValidateStateRefactoring(this, this.stack));
+    }
+    this._removedFromState = true;
+  }
+
+  get movedToTarget(): string | undefined {
+    return this._movedByTarget?.moveTarget;
+  }
+
+  get removedFromState(): boolean {
+    return this._removedFromState;
+  }
+
+  private get stack(): StackLike {
+    const stack = this.node.scopes
+      .map((scope) => getStack(scope))
+      .reverse()
+      .find((s) => s !== undefined);
+    if (stack === undefined) {
+      throw new Error(`No TerraformStack found in scope of ${this.node.path}`);
+    }
+    return stack;
+  }
+
+  private moveTargetAddress(move: TerraformResourceMoveByTarget): string | undefined {
+    const target = this.stack.findMoveTarget(move.moveTarget);
+    if (target === undefined) {
+      return undefined;
+    }
+    if (move.index === undefined) {
+      return target.rawFqn;
+    }
+    const index = typeof move.index === "number" ? String(move.index) : `"${move.index}"`;
+    return `${target.rawFqn}[${index}]`;
+  }
 
   interpolationForAttribute(attribute: string): IResolvable {
     const suffix = this.forEach !== undefined ? ".*" : "";
     const token = ref(`${this.terraformResourceType}.${this.friendlyUniqueId}${suffix}`, attribute);
-    const tokenStr = createToken(token);
+    const tokenStr = createToken(token, this._tokens);
     return {
       creationStack: [],
       resolve(_context: IResolveContext): unknown {
@@ -131,7 +214,7 @@ export class TerraformResource
   }
 
   getListAttribute(attribute: string): string[] {
-    return [this.interpolationForAttribute(attribute).toString()];
+    return createListToken(raw(this.getStringAttribute(attribute)), this._tokens);
   }
 
   getBooleanAttribute(attribute: string): IResolvable {
@@ -139,19 +222,19 @@ export class TerraformResource
   }
 
   getStringMapAttribute(attribute: string): Record<string, string> {
-    return { "": this.interpolationForAttribute(attribute).toString() };
+    return createMapToken(raw(this.getStringAttribute(attribute)), this._tokens);
   }
 
   getNumberMapAttribute(attribute: string): Record<string, number> {
-    return { "": Number(this.interpolationForAttribute(attribute).toString()) };
+    return createMapToken<number>(raw(this.getStringAttribute(attribute)), this._tokens);
   }
 
   getBooleanMapAttribute(attribute: string): Record<string, IResolvable> {
-    return { "": this.interpolationForAttribute(attribute) };
+    return createMapToken<IResolvable>(raw(this.getStringAttribute(attribute)), this._tokens);
   }
 
   getNumberListAttribute(attribute: string): number[] {
-    return [Number(this.interpolationForAttribute(attribute).toString())];
+    return createListToken<number>(raw(this.getStringAttribute(attribute)), this._tokens);
   }
 
   protected synthesizeAttributes(): Record<string, unknown> {
@@ -175,6 +258,12 @@ export class TerraformResource
     if (this.forEach !== undefined) {
       result["for_each"] = this.forEach._getForEachExpression();
     }
+    if (this.connection !== undefined) {
+      result["connection"] = connectionToTerraform(this.connection);
+    }
+    if (this.provisioners !== undefined && this.provisioners.length > 0) {
+      result["provisioner"] = provisionersToTerraform(this.provisioners);
+    }
     return result;
   }
 
@@ -197,10 +286,28 @@ export class TerraformResource
     ) {
       result["replace_triggered_by"] = this.lifecycle.replaceTriggeredBy;
     }
+    if (this.lifecycle.precondition !== undefined && this.lifecycle.precondition.length > 0) {
+      result["precondition"] = conditionsToTerraform(this.lifecycle.precondition);
+    }
+    if (this.lifecycle.postcondition !== undefined && this.lifecycle.postcondition.length > 0) {
+      result["postcondition"] = conditionsToTerraform(this.lifecycle.postcondition);
+    }
     return result;
   }
 
   override toTerraform(): Record<string, unknown> {
+    const address = `${this.terraformResourceType}.${this.friendlyUniqueId}`;
+
+    // Terraform only applies a move or removal once the old address is gone from the
+    // configuration, so such resources synthesize nothing but the refactoring block
+    if (this._removedFromState) {
+      return { removed: [{ from: address, lifecycle: { destroy: false } }] };
+    }
+    if (this._movedByTarget !== undefined) {
+      const to = this.moveTargetAddress(this._movedByTarget);
+      return to !== undefined ? { moved: [{ from: address, to }] } : {};
+    }
+
     const base: JsonObject = {
       ...this.synthesizeAttributes(),
       ...this.terraformMetaArguments,
@@ -225,22 +332,13 @@ export class TerraformResource
     if (this._imported !== undefined) {
       result["import"] = [
         {
-          to: `${this.terraformResourceType}.${this.friendlyUniqueId}`,
+          to: address,
           id: this._imported.id,
           provider: this._imported.provider?.fqn,
         },
       ];
     }
 
-    if (this._movedByTarget !== undefined) {
-      result["moved"] = [
-        {
-          from: `${this.terraformResourceType}.${this.friendlyUniqueId}`,
-          to: this._movedByTarget.moveTarget,
-        },
-      ];
-    }
-
     if (this._movedById !== undefined) {
       result["moved"] = [
         {
@@ -253,6 +351,43 @@ export class TerraformResource
     return result;
   }
 
+  override toConstructMetadata(): ConstructMetadata {
+    return {
+      kind: "resource",
+      resource: {
+        terraformResourceType: this.terraformResourceType,
+        provider: this.provider?.fqn,
+        dependsOn: this.dependsOn,
+        count: typeof this.count === "object" ? this.count.toNumber() : this.count,
+        forEach: this.forEach?._getForEachExpression(),
+        lifecycle:
+          this.lifecycle !== undefined
+            ? {
+                ...this.lifecycle,
+                precondition: conditionsToMetadata(this.lifecycle.precondition),
+                postcondition: conditionsToMetadata(this.lifecycle.postcondition),
+              }
+            : undefined,
+        provisioners: provisionersToMetadata(this.provisioners),
+        connection: this.connection,
+        config: this.synthesizeAttributes(),
+        overrides: this.rawOverrides,
+      },
+    };
+  }
+
+  override toReferenceTargets(): Record<string, ReferenceTarget> {
+    return { [this.rawFqn]: { attributes: this.terraformGeneratorMetadata?.attributes } };
+  }
+
+  override toHclBlockHints(): HclBlockHints {
+    const blockTypes = this.terraformGeneratorMetadata?.blockTypes;
+    if (blockTypes === undefined) {
+      return {};
+    }
+    return { [`${this.terraformResourceType}.${this.friendlyUniqueId}`]: blockTypes };
+  }
+
   override toMetadata(): Record<string, unknown> {
     if (Object.keys(this.rawOverrides).length > 0) {
       return { overrides: { [this.terraformResourceType]: Object.keys(this.rawOverrides) } };
@@ -260,3 +395,24 @@ export class TerraformResource
     return {};
   }
 }
+
+class ValidateStateRefactoring implements IValidation {
+  constructor(
+    private readonly resource: TerraformResource,
+    private readonly stack: StackLike,
+  ) {}
+
+  validate(): string[] {
+    const moveTarget = this.resource.movedToTarget;
+    if (moveTarget === undefined) {
+      return [];
+    }
+    if (this.resource.removedFromState) {
+      return ["Resource cannot be both moved and removed from state"];
+    }
+    if (this.stack.findMoveTarget(moveTarget) === undefined) {
+      return [`Move target "${moveTarget}" does not exist in stack "${this.stack.node.id}"`];
+    }
+    return [];
+  }
+}
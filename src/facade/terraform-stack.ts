@@ -1,11 +1,23 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
+import { renderHcl } from "../core/hcl.js";
 import { generateLogicalId } from "../core/synthesize.js";
+import {
+  buildStackGraph,
+  type DependencyGraph,
+  dependsOnAddresses,
+  type GraphEdge,
+  withoutDependsOn,
+} from "../core/graph.js";
 import type { TerraformJson } from "../core/terraform-json.js";
+import { collectReferences, type ReferenceTarget, validateReferences } from "../core/references.js";
 import { resolveTokens, type Token, tokenToString } from "../core/tokens.js";
-import { App } from "./app.js";
+import type { ConstructMetadata, ValidationError } from "../core/types.js";
+import { AnnotationMetadataEntryType } from "./annotations.js";
+import { type Annotation, App, type AssetManifest } from "./app.js";
 import { Construct, type IValidation } from "./construct.js";
 import { registerStack } from "./stack-registry.js";
+import type { TerraformAsset } from "./terraform-asset.js";
 import { LocalBackend, TerraformBackend } from "./terraform-backend.js";
 import type { ElementKind } from "./terraform-element.js";
 import { TerraformElement } from "./terraform-element.js";
@@ -18,6 +30,41 @@ function asRecord(value: object): Record<string, unknown> {
   return Object.fromEntries(Object.entries(value));
 }
 
+function annotationLevel(type: string): Annotation["level"] | null {
+  switch (type) {
+    case AnnotationMetadataEntryType.INFO:
+      return "info";
+    case AnnotationMetadataEntryType.WARN:
+      return "warning";
+    case AnnotationMetadataEntryType.ERROR:
+      return "error";
+    default:
+      return null;
+  }
+}
+
+// Elements inside a check are synthesized by the check itself
+function isScopedToCheck(element: TerraformElement): boolean {
+  return element.node.scopes.some(
+    (scope) => scope !== element && scope instanceof TerraformElement && scope.kind === "check",
+  );
+}
+
+// moved, import and removed are lists of blocks that every element may contribute to
+const BLOCK_LIST_KEYS = ["moved", "import", "removed"] as const;
+
+function mergeElement(acc: TerraformJson, fragment: Record<string, unknown>): TerraformJson {
+  const merged = deepMerge(acc, fragment);
+  const lists = BLOCK_LIST_KEYS.flatMap((key) => {
+    const existing = acc[key];
+    const added: unknown = fragment[key];
+    return existing !== undefined && Array.isArray(added)
+      ? [[key, [...existing, ...(added as unknown[])]] as const]
+      : [];
+  });
+  return { ...merged, ...Object.fromEntries(lists) };
+}
+
 function toTerraformJson(obj: Record<string, unknown>): TerraformJson {
   return obj;
 }
@@ -34,6 +81,8 @@ export class TerraformStack extends TerraformElement {
   public dependencies: TerraformStack[] = [];
   private readonly _crossStackOutputs: Map<string, TerraformOutput> = new Map();
   private readonly _crossStackDataSources: Map<string, TerraformRemoteState> = new Map();
+  private readonly _moveTargets: Map<string, TerraformElement> = new Map();
+  private readonly _assets: TerraformAsset[] = [];
 
   constructor(scope: Construct, id: string) {
     super(scope, id);
@@ -74,27 +123,91 @@ export class TerraformStack extends TerraformElement {
       fs.mkdirSync(stackDir, { recursive: true });
     }
 
-    const json = this.toTerraform();
-    const outputPath = path.join(stackDir, "cdk.tf.json");
-    fs.writeFileSync(outputPath, JSON.stringify(json, null, 2));
+    const jsonPath = path.join(stackDir, "cdk.tf.json");
+    const hclPath = path.join(stackDir, "main.tf");
+    const outputPath = app.hclOutput ? hclPath : jsonPath;
+
+    // Terraform loads both formats from a directory, so a leftover file from a
+    // previous synth in the other mode would duplicate every block
+    fs.rmSync(app.hclOutput ? jsonPath : hclPath, { force: true });
+    fs.writeFileSync(
+      outputPath,
+      app.hclOutput ? this.toHcl() : JSON.stringify(this.toTerraform(), null, 2),
+    );
+    const assets = this.synthesizeAssets(stackDir);
 
     app.manifest.stacks[this.stackName] = {
       name: this.stackName,
       constructPath: this.node.path,
       synthesizedStackPath: outputPath,
       workingDirectory: stackDir,
-      annotations: [],
+      annotations: this.collectAnnotations(),
       dependencies: this.dependencies.map((d) => d.stackName),
+      assets,
     };
   }
 
-  override toTerraform(): TerraformJson {
-    const elements = this.node.findAll().flatMap((c) => {
-      if (c !== this && c instanceof TerraformElement) {
+  registerAsset(asset: TerraformAsset): void {
+    this._assets.push(asset);
+  }
+
+  // Copies or archives every asset into the stack directory, next to the configuration whose
+  // resources reference asset.path, and prunes folders left behind by earlier synths
+  private synthesizeAssets(stackDir: string): AssetManifest[] {
+    const assetsDir = path.join(stackDir, "assets");
+    const hashes = new Map(
+      this._assets.map((asset) => [this.getLogicalId(asset), asset.assetHash]),
+    );
+    if (fs.existsSync(assetsDir)) {
+      for (const entry of fs.readdirSync(assetsDir, { withFileTypes: true })) {
+        const entryPath = path.join(assetsDir, entry.name);
+        const hash = hashes.get(entry.name);
+        if (hash === undefined || !entry.isDirectory()) {
+          fs.rmSync(entryPath, { recursive: true, force: true });
+          continue;
+        }
+        for (const stale of fs.readdirSync(entryPath).filter((name) => name !== hash)) {
+          fs.rmSync(path.join(entryPath, stale), { recursive: true, force: true });
+        }
+      }
+    }
+    return this._assets.map((asset) => {
+      asset.copyToOutputDir(stackDir);
+      return asset.toManifest();
+    });
+  }
+
+  private collectAnnotations(): Annotation[] {
+    return this.node.findAll().flatMap((construct) =>
+      construct.node.metadata.flatMap((entry): Annotation[] => {
+        const level = annotationLevel(entry.type);
+        if (level === null) {
+          return [];
+        }
+        return [
+          {
+            constructPath: construct.node.path,
+            level,
+            message: String(entry.data),
+            ...(entry.trace !== undefined ? { stacktrace: entry.trace } : {}),
+          },
+        ];
+      }),
+    );
+  }
+
+  // Elements synthesized at the top level; those scoped to a check are part of its block
+  private get synthesizedElements(): TerraformElement[] {
+    return this.node.findAll().flatMap((c) => {
+      if (c !== this && c instanceof TerraformElement && !isScopedToCheck(c)) {
         return [c];
       }
       return [];
     });
+  }
+
+  override toTerraform(): TerraformJson {
+    const elements = this.synthesizedElements;
 
     let result: TerraformJson = {
       "//": {
@@ -106,15 +219,99 @@ export class TerraformStack extends TerraformElement {
       },
     };
 
-    result = elements.reduce((acc, element) => deepMerge(acc, element.toTerraform()), result);
+    result = elements.reduce((acc, element) => mergeElement(acc, element.toTerraform()), result);
 
-    const resolved = resolveTokens(result, (token: Token) => tokenToString(token));
+    const unresolved = new Set<string>();
+    const resolved = resolveTokens(
+      result,
+      (token: Token) => tokenToString(token),
+      this._tokens,
+      (marker) => unresolved.add(marker),
+    );
+    if (unresolved.size > 0) {
+      throw new Error(
+        `Stack "${this.stackName}" uses tokens that were not created in its App: ${[...unresolved].join(", ")}. Tokens cannot be shared between App instances.`,
+      );
+    }
     if (resolved === null || typeof resolved !== "object" || Array.isArray(resolved)) {
       return {};
     }
     return toTerraformJson(asRecord(resolved));
   }
 
+  // Checks that every reference to a resource, data source or ephemeral resource points at an
+  // element of this stack and, when codegen recorded the schema, at one of its attributes
+  referenceErrors(): readonly ValidationError[] {
+    const targets = this.node.findAll().reduce<Record<string, ReferenceTarget>>((acc, c) => {
+      return c !== this && c instanceof TerraformElement
+        ? { ...acc, ...c.toReferenceTargets() }
+        : acc;
+    }, {});
+    const elements = this.synthesizedElements.map((element) => ({
+      path: element._path,
+      references: collectReferences(element.toTerraform(), this._tokens),
+    }));
+    return validateReferences(this.stackName, elements, targets);
+  }
+
+  // This stack, its resources, data sources and remote states, and the edges leaving them
+  dependencyGraph(): DependencyGraph {
+    const elements = this.node.findAll().flatMap((c) => {
+      if (c === this || !(c instanceof TerraformElement)) {
+        return [];
+      }
+      const json = c.toTerraform();
+      // depends_on may hold fqn tokens, so its addresses are read from the resolved config
+      const resolved = resolveTokens(json, (token: Token) => tokenToString(token), this._tokens);
+      return Object.keys(c.toReferenceTargets()).map((address) => ({
+        address,
+        constructPath: c.node.path,
+        references: collectReferences(withoutDependsOn(json), this._tokens),
+        dependsOn: dependsOnAddresses(resolved),
+      }));
+    });
+    const graph = buildStackGraph(this.stackName, elements);
+    return {
+      nodes: [
+        {
+          id: this.stackName,
+          kind: "stack",
+          stack: this.stackName,
+          label: this.stackName,
+          constructPath: this.node.path,
+        },
+        ...graph.nodes,
+      ],
+      edges: [
+        ...this.dependencies.map(
+          (d): GraphEdge => ({ from: this.stackName, to: d.stackName, kind: "stack" }),
+        ),
+        ...graph.edges,
+      ],
+    };
+  }
+
+  toHcl(): string {
+    const hints = this.node.findAll().reduce<Record<string, readonly string[]>>((acc, c) => {
+      if (c === this || !(c instanceof TerraformElement)) {
+        return acc;
+      }
+      for (const [address, blockTypes] of Object.entries(c.toHclBlockHints())) {
+        acc[address] = [...new Set([...(acc[address] ?? []), ...blockTypes])];
+      }
+      return acc;
+    }, {});
+    return renderHcl(this.toTerraform(), hints);
+  }
+
+  override toConstructMetadata(): ConstructMetadata {
+    return {
+      kind: "stack",
+      stackName: this.stackName,
+      dependencies: this.dependencies.map((d) => d.stackName),
+    };
+  }
+
   addDependency(dependency: TerraformStack): void {
     if (dependency.dependsOn(this)) {
       throw new Error(
@@ -164,6 +361,20 @@ export class TerraformStack extends TerraformElement {
     return output.friendlyUniqueId;
   }
 
+  registerMoveTarget(moveTarget: string, element: TerraformElement): void {
+    const existing = this._moveTargets.get(moveTarget);
+    if (existing !== undefined && existing !== element) {
+      throw new Error(
+        `Move target "${moveTarget}" is already registered by ${existing.node.path} in stack "${this.stackName}"`,
+      );
+    }
+    this._moveTargets.set(moveTarget, element);
+  }
+
+  findMoveTarget(moveTarget: string): TerraformElement | undefined {
+    return this._moveTargets.get(moveTarget);
+  }
+
   registerIncomingCrossStackReference(fromStack: TerraformStack): TerraformRemoteState {
     const key = fromStack.node.path;
     let remoteState = this._crossStackDataSources.get(key);
@@ -1,33 +1,46 @@
-import { createToken, ref } from "../core/tokens.js";
+import {
+  createListToken,
+  createNumberToken,
+  createToken,
+  ref,
+  type TokenRegistry,
+} from "../core/tokens.js";
+import type { ConstructMetadata } from "../core/types.js";
 import type { Construct } from "./construct.js";
 import type { ElementKind } from "./terraform-element.js";
 import { TerraformElement } from "./terraform-element.js";
+import { VariableType } from "./variable-type.js";
 
 export type TerraformVariableValidation = {
   readonly condition: string;
   readonly errorMessage: string;
 };
 
-export type TerraformVariableConfig = {
-  readonly type?: string;
+export type TerraformVariableConfig<T = unknown> = {
+  // A VariableType also types `value`; a raw string is passed through as written and leaves
+  // `value` unknown
+  readonly type?: VariableType<T> | (unknown extends T ? string : never);
   readonly default?: unknown;
   readonly description?: string;
   readonly sensitive?: boolean;
   readonly nullable?: boolean;
+  // Available during plan and apply but never written to plan or state files
+  readonly ephemeral?: boolean;
   readonly validation?: TerraformVariableValidation[];
 };
 
-export class TerraformVariable extends TerraformElement {
+export class TerraformVariable<T = unknown> extends TerraformElement {
   readonly kind: ElementKind = "variable";
 
-  private readonly _type?: string;
+  private readonly _type?: string | VariableType<T>;
   private readonly _default?: unknown;
   private readonly _description?: string;
   private readonly _sensitive?: boolean;
   private readonly _nullable?: boolean;
+  private readonly _ephemeral?: boolean;
   private readonly _validation?: TerraformVariableValidation[];
 
-  constructor(scope: Construct, id: string, config: TerraformVariableConfig = {}) {
+  constructor(scope: Construct, id: string, config: TerraformVariableConfig<T> = {}) {
     super(scope, id);
 
     this._type = config.type;
@@ -35,35 +48,55 @@ export class TerraformVariable extends TerraformElement {
     this._description = config.description;
     this._sensitive = config.sensitive;
     this._nullable = config.nullable;
+    this._ephemeral = config.ephemeral;
     this._validation = config.validation;
   }
 
-  get value(): unknown {
-    const token = ref(`var`, this.friendlyUniqueId);
-    return createToken(token);
+  get value(): T {
+    const traversal = `var.${this.friendlyUniqueId}`;
+    return this._type instanceof VariableType
+      ? this._type.valueFor(traversal, this._tokens)
+      : untypedValue(traversal, this._tokens);
   }
 
   get stringValue(): string {
-    return String(this.value);
+    const token = ref(`var`, this.friendlyUniqueId);
+    return createToken(token, this._tokens);
   }
 
   get numberValue(): number {
-    return Number(this.value);
+    return createNumberToken(ref(`var`, this.friendlyUniqueId), this._tokens);
   }
 
   get booleanValue(): boolean {
-    return Boolean(this.value);
+    return Boolean(this.stringValue);
   }
 
   get listValue(): string[] {
-    return [String(this.value)];
+    return createListToken(ref(`var`, this.friendlyUniqueId), this._tokens);
+  }
+
+  override toConstructMetadata(): ConstructMetadata {
+    return {
+      kind: "variable",
+      variable: {
+        type: this._type?.toString(),
+        default: this._default,
+        description: this._description,
+        sensitive: this._sensitive,
+        nullable: this._nullable,
+        ephemeral: this._ephemeral,
+        validation: this._validation,
+      },
+    };
   }
 
   override toTerraform(): Record<string, unknown> {
     const result: Record<string, unknown> = {};
 
-    if (this._type !== undefined && this._type !== "") {
-      result["type"] = this._type;
+    const type = this._type?.toString();
+    if (type !== undefined && type !== "") {
+      result["type"] = type;
     }
     if (this._default !== undefined) {
       result["default"] = this._default;
@@ -77,6 +110,9 @@ export class TerraformVariable extends TerraformElement {
     if (this._nullable !== undefined) {
       result["nullable"] = this._nullable;
     }
+    if (this._ephemeral !== undefined) {
+      result["ephemeral"] = this._ephemeral;
+    }
     if (this._validation !== undefined && this._validation.length > 0) {
       result["validation"] = this._validation.map((v) => ({
         condition: v.condition,
@@ -91,3 +127,10 @@ export class TerraformVariable extends TerraformElement {
     };
   }
 }
+
+// TerraformVariableConfig only takes a raw type string, or no type, for TerraformVariable<unknown>,
+// so the value of an untyped variable is always unknown
+function untypedValue<T>(traversal: string, registry: TokenRegistry): T;
+function untypedValue(traversal: string, registry: TokenRegistry): unknown {
+  return VariableType.any.valueFor(traversal, registry);
+}
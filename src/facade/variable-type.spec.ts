@@ -0,0 +1,66 @@
+import { describe, expect, test } from "bun:test";
+import {
+  containsTokens,
+  createTokenRegistry,
+  resolveTokens,
+  tokenToString,
+} from "../core/tokens.js";
+import { VariableType } from "./variable-type.js";
+
+describe("VariableType", () => {
+  test("serializes primitive types", () => {
+    expect(VariableType.string.toString()).toBe("string");
+    expect(VariableType.number.toString()).toBe("number");
+    expect(VariableType.bool.toString()).toBe("bool");
+    expect(VariableType.any.toString()).toBe("any");
+  });
+
+  test("serializes collection types", () => {
+    expect(VariableType.listOf(VariableType.string).toString()).toBe("list(string)");
+    expect(VariableType.setOf(VariableType.number).toString()).toBe("set(number)");
+    expect(VariableType.mapOf(VariableType.listOf(VariableType.bool)).toString()).toBe(
+      "map(list(bool))",
+    );
+  });
+
+  test("serializes tuple types", () => {
+    expect(VariableType.tuple(VariableType.string, VariableType.number).toString()).toBe(
+      "tuple([string, number])",
+    );
+  });
+
+  test("serializes object types with optional attributes and defaults", () => {
+    const type = VariableType.object({
+      name: VariableType.string,
+      port: VariableType.optional(VariableType.number, 8080),
+      tags: VariableType.optional(VariableType.mapOf(VariableType.string), { team: "core" }),
+      "dns-zone": VariableType.optional(VariableType.string),
+    });
+    expect(type.toString()).toBe(
+      'object({ name = string, port = optional(number, 8080), tags = optional(map(string), { team = "core" }), dns-zone = optional(string) })',
+    );
+  });
+
+  test("quotes attribute names that are not identifiers", () => {
+    const type = VariableType.object({ "0day": VariableType.bool });
+    expect(type.toString()).toBe('object({ "0day" = bool })');
+  });
+
+  test("gives number values a number token and bool values a resolvable", () => {
+    const registry = createTokenRegistry();
+    const replicas = VariableType.number.valueFor("var.replicas", registry);
+    const enabled = VariableType.bool.valueFor("var.enabled", registry);
+
+    expect(typeof replicas).toBe("number");
+    expect(containsTokens(replicas)).toBe(true);
+    expect(resolveTokens([replicas, enabled], (t) => tokenToString(t), registry)).toEqual([
+      "${var.replicas}",
+      "${var.enabled}",
+    ]);
+  });
+
+  test("takes plain boolean defaults for optional bool attributes", () => {
+    const type = VariableType.object({ public: VariableType.optional(VariableType.bool, false) });
+    expect(type.toString()).toBe("object({ public = optional(bool, false) })");
+  });
+});
@@ -0,0 +1,192 @@
+import {
+  createListToken,
+  createMapToken,
+  createNumberToken,
+  createToken,
+  type IResolvable,
+  type IResolveContext,
+  raw,
+  type TokenRegistry,
+} from "../core/tokens.js";
+
+const TERRAFORM_IDENTIFIER_REGEX = /^[_a-zA-Z][_a-zA-Z0-9-]*$/;
+
+// A Terraform type constraint. The type parameter is the TypeScript shape of the variable's
+// value, so TerraformVariable.value can hand out one token per object attribute or tuple
+// element instead of a single opaque string.
+export class VariableType<T> {
+  static readonly string: VariableType<string> = new VariableType("string", stringValue);
+  static readonly number: VariableType<number> = new VariableType("number", numberValue);
+  // Booleans have no token encoding, so a bool value is an IResolvable like boolean attributes
+  static readonly bool: VariableType<IResolvable> = new VariableType("bool", booleanValue);
+  static readonly any: VariableType<unknown> = new VariableType("any", stringValue);
+
+  private constructor(
+    private readonly expression: string,
+    private readonly access: (traversal: string, registry: TokenRegistry) => T,
+  ) {}
+
+  static listOf<T>(element: VariableType<T>): VariableType<T[]> {
+    return new VariableType(`list(${element.expression})`, (traversal, registry) =>
+      createListToken<T>(raw(`\${${traversal}}`), registry),
+    );
+  }
+
+  static setOf<T>(element: VariableType<T>): VariableType<T[]> {
+    return new VariableType(`set(${element.expression})`, (traversal, registry) =>
+      createListToken<T>(raw(`\${${traversal}}`), registry),
+    );
+  }
+
+  static mapOf<T>(element: VariableType<T>): VariableType<Record<string, T>> {
+    return new VariableType(`map(${element.expression})`, (traversal, registry) =>
+      createMapToken<T>(raw(`\${${traversal}}`), registry),
+    );
+  }
+
+  static object<A extends ObjectAttributes>(attributes: A): VariableType<ObjectValue<A>> {
+    const fields = Object.entries(attributes).map(([name, attribute]) => {
+      const type = attribute instanceof VariableType ? attribute.expression : attribute.toString();
+      return `${attributeKey(name)} = ${type}`;
+    });
+    return new VariableType(`object({ ${fields.join(", ")} })`, (traversal, registry) =>
+      objectValue(attributes, traversal, registry),
+    );
+  }
+
+  static tuple<E extends readonly VariableType<unknown>[]>(
+    ...elements: E
+  ): VariableType<TupleValue<E>> {
+    const types = elements.map((element) => element.expression);
+    return new VariableType(`tuple([${types.join(", ")}])`, (traversal, registry) =>
+      tupleValue(elements, traversal, registry),
+    );
+  }
+
+  // Only valid as an object attribute; Terraform fills in `defaultValue` when it is omitted
+  static optional<T>(type: VariableType<T>, defaultValue?: LiteralValue<T>): OptionalAttribute<T> {
+    return new OptionalAttribute(type, defaultValue);
+  }
+
+  // Builds the value of a variable whose type is `this`, given its traversal (e.g. var.network)
+  // and the registry of the App that owns the variable
+  valueFor(traversal: string, registry: TokenRegistry): T {
+    return this.access(traversal, registry);
+  }
+
+  toString(): string {
+    return this.expression;
+  }
+}
+
+export class OptionalAttribute<T> {
+  constructor(
+    readonly type: VariableType<T>,
+    readonly defaultValue?: LiteralValue<T>,
+  ) {}
+
+  toString(): string {
+    return this.defaultValue !== undefined
+      ? `optional(${this.type.toString()}, ${hclLiteral(this.defaultValue)})`
+      : `optional(${this.type.toString()})`;
+  }
+}
+
+export type ObjectAttributes = Record<string, VariableType<unknown> | OptionalAttribute<unknown>>;
+
+export type ObjectValue<A extends ObjectAttributes> = {
+  readonly [K in keyof A]: A[K] extends OptionalAttribute<infer T>
+    ? T
+    : A[K] extends VariableType<infer T>
+      ? T
+      : never;
+};
+
+export type TupleValue<E extends readonly VariableType<unknown>[]> = {
+  readonly [K in keyof E]: E[K] extends VariableType<infer T> ? T : never;
+};
+
+// The plain value a default takes for a variable whose value is T: bool values are
+// IResolvable tokens, but their defaults are booleans
+export type LiteralValue<T> = T extends IResolvable
+  ? boolean
+  : T extends readonly (infer E)[]
+    ? LiteralValue<E>[]
+    : T extends object
+      ? { readonly [K in keyof T]: LiteralValue<T[K]> }
+      : T;
+
+function stringValue(traversal: string, registry: TokenRegistry): string {
+  return createToken(raw(`\${${traversal}}`), registry);
+}
+
+function numberValue(traversal: string, registry: TokenRegistry): number {
+  return createNumberToken(raw(`\${${traversal}}`), registry);
+}
+
+function booleanValue(traversal: string, registry: TokenRegistry): IResolvable {
+  const token = stringValue(traversal, registry);
+  return {
+    creationStack: [],
+    resolve(_context: IResolveContext): unknown {
+      return token;
+    },
+    toString(): string {
+      return token;
+    },
+  };
+}
+
+// Object and tuple values are assembled at runtime from the attribute and element types, which
+// the mapped ObjectValue and TupleValue types describe one by one
+function objectValue<A extends ObjectAttributes>(
+  attributes: A,
+  traversal: string,
+  registry: TokenRegistry,
+): ObjectValue<A>;
+function objectValue(
+  attributes: ObjectAttributes,
+  traversal: string,
+  registry: TokenRegistry,
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(attributes).map(([name, attribute]) => {
+      const type = attribute instanceof VariableType ? attribute : attribute.type;
+      return [name, type.valueFor(attributeTraversal(traversal, name), registry)];
+    }),
+  );
+}
+
+function tupleValue<E extends readonly VariableType<unknown>[]>(
+  elements: E,
+  traversal: string,
+  registry: TokenRegistry,
+): TupleValue<E>;
+function tupleValue(
+  elements: readonly VariableType<unknown>[],
+  traversal: string,
+  registry: TokenRegistry,
+): readonly unknown[] {
+  return elements.map((element, index) => element.valueFor(`${traversal}[${index}]`, registry));
+}
+
+function attributeKey(name: string): string {
+  return TERRAFORM_IDENTIFIER_REGEX.test(name) ? name : JSON.stringify(name);
+}
+
+function attributeTraversal(traversal: string, name: string): string {
+  return TERRAFORM_IDENTIFIER_REGEX.test(name)
+    ? `${traversal}.${name}`
+    : `${traversal}[${JSON.stringify(name)}]`;
+}
+
+function hclLiteral(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(hclLiteral).join(", ")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value).map(([k, v]) => `${attributeKey(k)} = ${hclLiteral(v)}`);
+    return `{ ${entries.join(", ")} }`;
+  }
+  return value === null ? "null" : JSON.stringify(value);
+}
@@ -1,2 +1,7 @@
+export type * from "./core/types.js";
+export type { DependencyGraph, GraphEdge, GraphFormat, GraphNode } from "./core/graph.js";
+export { renderGraph } from "./core/graph.js";
+export { findNode, getDescendants, walkTree, walkTreePost } from "./core/tree.js";
+export { detectCircularDependencies, hasErrors, validateNode } from "./core/validate.js";
 export * from "./facade/index.js";
 export { Testing } from "./testing/index.js";
@@ -1,17 +1,40 @@
-import { describe, expect, test } from "bun:test";
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { createHash } from "node:crypto";
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  utimesSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { S3Backend } from "./facade/backends/index.js";
 import {
+  Annotations,
   App,
+  AssetHashType,
+  AssetType,
+  buildConstructTree,
+  Construct,
   Fn,
   Op,
+  TerraformCheck,
   TerraformDataSource,
+  TerraformEphemeralResource,
   TerraformLocal,
+  TerraformAsset,
   TerraformOutput,
   TerraformProvider,
   TerraformResource,
   TerraformStack,
   TerraformVariable,
+  VariableType,
 } from "./facade/index.js";
+import { getDescendants, walkTree } from "./core/tree.js";
+import { validateNode } from "./core/validate.js";
 import { Testing } from "./testing/index.js";
 
 class TestProvider extends TerraformProvider {
@@ -32,7 +55,7 @@ class TestResource extends TerraformResource {
   public tags?: Record<string, string>;
 
   constructor(
-    scope: TerraformStack,
+    scope: Construct,
     id: string,
     config: { name: string; tags?: Record<string, string> },
   ) {
@@ -65,7 +88,7 @@ class TestResource extends TerraformResource {
 class TestDataSource extends TerraformDataSource {
   public filter: string;
 
-  constructor(scope: TerraformStack, id: string, config: { filter: string }) {
+  constructor(scope: Construct, id: string, config: { filter: string }) {
     super(scope, id, {
       terraformResourceType: "test_data",
       terraformGeneratorMetadata: {
@@ -151,6 +174,56 @@ describe("Integration Tests", () => {
       expect(synth.variable?.["my-var"]?.default).toBe("default-value");
     });
 
+    test("synthesizes VariableType constraints and typed value tokens", () => {
+      const app = new App({ outdir: "cdktf.out" });
+      const stack = new TerraformStack(app, "test-stack");
+      new TestProvider(stack, "test");
+
+      const network = new TerraformVariable(stack, "network", {
+        type: VariableType.object({
+          name: VariableType.string,
+          cidrs: VariableType.listOf(VariableType.string),
+          dns: VariableType.optional(VariableType.object({ zone: VariableType.string })),
+          pair: VariableType.tuple(VariableType.string, VariableType.number),
+        }),
+      });
+      new TestResource(stack, "net", {
+        name: network.value.name,
+        tags: { zone: network.value.dns.zone, first: network.value.pair[0] },
+      });
+      new TerraformOutput(stack, "cidrs", { value: network.value.cidrs });
+
+      const synth = Testing.synth(stack);
+      expect(synth.variable?.["network"]?.type).toBe(
+        "object({ name = string, cidrs = list(string), dns = optional(object({ zone = string })), pair = tuple([string, number]) })",
+      );
+      expect(synth.resource?.["test_resource"]?.["net"]).toMatchObject({
+        name: "${var.network.name}",
+        tags: { zone: "${var.network.dns.zone}", first: "${var.network.pair[0]}" },
+      });
+      expect(synth.output?.["cidrs"]?.value).toBe("${var.network.cidrs}");
+    });
+
+    test("gives number and bool variables token values", () => {
+      const app = new App({ outdir: "cdktf.out" });
+      const stack = new TerraformStack(app, "test-stack");
+      new TestProvider(stack, "test");
+
+      const replicas = new TerraformVariable(stack, "replicas", { type: VariableType.number });
+      const enabled = new TerraformVariable(stack, "enabled", { type: VariableType.bool });
+      const web = new TestResource(stack, "web", { name: "web" });
+      web.count = replicas.value;
+      new TerraformOutput(stack, "total", { value: Op.add(replicas.value, 1) });
+      new TerraformOutput(stack, "is-enabled", { value: enabled.value });
+      new TerraformOutput(stack, "mode", { value: Fn.conditional(enabled.value, "on", "off") });
+
+      const synth = Testing.synth(stack);
+      expect(synth.resource?.["test_resource"]?.["web"]?.["count"]).toBe("${var.replicas}");
+      expect(synth.output?.["total"]?.value).toBe("${(var.replicas + 1)}");
+      expect(synth.output?.["is-enabled"]?.value).toBe("${var.enabled}");
+      expect(synth.output?.["mode"]?.value).toBe('${var.enabled ? "on" : "off"}');
+    });
+
     test("synthesizes outputs", () => {
       const app = new App({ outdir: "cdktf.out" });
       const stack = new TerraformStack(app, "test-stack");
@@ -222,6 +295,32 @@ describe("Integration Tests", () => {
       expect(resourceName).toContain("test_resource.resource1.id");
     });
 
+    test("list and map attributes resolve to whole expressions", () => {
+      const app = new App({ outdir: "cdktf.out" });
+      const stack = new TerraformStack(app, "test-stack");
+      new TestProvider(stack, "test");
+
+      const resource = new TestResource(stack, "source", { name: "example" });
+      const zones = new TerraformVariable(stack, "zones", { type: "list(string)" });
+      new TerraformOutput(stack, "ids", { value: resource.getListAttribute("ids") });
+      new TerraformOutput(stack, "all-zones", { value: [...zones.listValue, "us-east-1a"] });
+      new TerraformOutput(stack, "count", {
+        value: Fn.lengthOf(resource.getListAttribute("ids")),
+      });
+      new TestResource(stack, "tagged", {
+        name: "tagged",
+        tags: { ...resource.getStringMapAttribute("tags"), team: "core" },
+      });
+
+      const synth = Testing.synth(stack);
+      expect(synth.output?.["ids"]?.value).toBe("${test_resource.source.ids}");
+      expect(synth.output?.["all-zones"]?.value).toBe('${concat(var.zones, ["us-east-1a"])}');
+      expect(synth.output?.["count"]?.value).toBe("${length(test_resource.source.ids)}");
+      expect(synth.resource?.["test_resource"]?.["tagged"]?.["tags"]).toBe(
+        '${merge(test_resource.source.tags, {"team" = "core"})}',
+      );
+    });
+
     test("output references resource", () => {
       const app = new App({ outdir: "cdktf.out" });
       const stack = new TerraformStack(app, "test-stack");
@@ -318,6 +417,389 @@ describe("Integration Tests", () => {
     });
   });
 
+  describe("Custom Conditions", () => {
+    test("synthesizes resource and data source lifecycle conditions", () => {
+      const app = new App({ outdir: "cdktf.out" });
+      const stack = new TerraformStack(app, "test-stack");
+      new TestProvider(stack, "test");
+      const lookup = new TestDataSource(stack, "lookup", { filter: "name=web" });
+      lookup.lifecycle = {
+        postcondition: [
+          { condition: Op.neq(lookup.resultOutput, ""), errorMessage: "No match found." },
+        ],
+      };
+      const resource = new TestResource(stack, "web", { name: "web" });
+      resource.lifecycle = {
+        preventDestroy: true,
+        precondition: [
+          {
+            condition: Op.gt(Fn.lengthOf(lookup.resultOutput), 0),
+            errorMessage: "Lookup returned nothing.",
+          },
+        ],
+        postcondition: [
+          {
+            condition: resource.getBooleanAttribute("enabled"),
+            errorMessage: "Resource must be enabled.",
+          },
+        ],
+      };
+
+      const synth = Testing.synth(stack);
+      expect(synth.data?.["test_data"]?.["lookup"]?.["lifecycle"]).toEqual({
+        postcondition: [
+          {
+            condition: '${(data.test_data.lookup.result != "")}',
+            error_message: "No match found.",
+          },
+        ],
+      });
+      expect(synth.resource?.["test_resource"]?.["web"]?.["lifecycle"]).toEqual({
+        prevent_destroy: true,
+        precondition: [
+          {
+            condition: "${(length(data.test_data.lookup.result) > 0)}",
+            error_message: "Lookup returned nothing.",
+          },
+        ],
+        postcondition: [
+          { condition: "${test_resource.web.enabled}", error_message: "Resource must be enabled." },
+        ],
+      });
+    });
+
+    test("synthesizes output preconditions", () => {
+      const app = new App({ outdir: "cdktf.out" });
+      const stack = new TerraformStack(app, "test-stack");
+      new TestProvider(stack, "test");
+      const resource = new TestResource(stack, "web", { name: "web" });
+
+      new TerraformOutput(stack, "arn", {
+        value: resource.arnOutput,
+        precondition: [
+          {
+            condition: Fn.startswith(resource.arnOutput, "arn:"),
+            errorMessage: "Not an ARN.",
+          },
+        ],
+      });
+
+      const synth = Testing.synth(stack);
+      expect(synth.output?.["arn"]?.precondition).toEqual([
+        {
+          condition: '${startswith(test_resource.web.arn, "arn:")}',
+          error_message: "Not an ARN.",
+        },
+      ]);
+    });
+
+    test("rejects a literal string as a condition", () => {
+      const app = new App({ outdir: "cdktf.out" });
+      const stack = new TerraformStack(app, "test-stack");
+      new TestProvider(stack, "test");
+      const resource = new TestResource(stack, "web", { name: "web" });
+      resource.lifecycle = {
+        precondition: [{ condition: "var.size > 0", errorMessage: "Size is required." }],
+      };
+
+      expect(app.validate().errors).toEqual([
+        {
+          constructPath: "test-stack/web",
+          level: "error",
+          message:
+            "Precondition condition must be an expression built from tokens, Fn or Op, not a literal string",
+        },
+      ]);
+    });
+
+    test("renders conditions as HCL blocks", () => {
+      const outdir = mkdtempSync(join(tmpdir(), "tfts.hcl."));
+      const app = new App({ outdir, hclOutput: true });
+      const stack = new TerraformStack(app, "hcl-stack");
+      new TestProvider(stack, "test");
+      const resource = new TestResource(stack, "web", { name: "web" });
+      resource.lifecycle = {
+        precondition: [{ condition: Op.neq(resource.idOutput, ""), errorMessage: "Missing id." }],
+      };
+      app.synth();
+
+      const hcl = readFileSync(join(outdir, "stacks", "hcl-stack", "main.tf"), "utf-8");
+      expect(hcl).toContain("precondition {");
+      expect(hcl).toContain('condition     = (test_resource.web.id != "")');
+      expect(hcl).toContain('error_message = "Missing id."');
+    });
+  });
+
+  describe("Provisioners", () => {
+    test("synthesizes provisioners and connection blocks", () => {
+      const app = new App({ outdir: "cdktf.out" });
+      const stack = new TerraformStack(app, "test-stack");
+      new TestProvider(stack, "test");
+      const vm = new TestResource(stack, "vm", { name: "legacy" });
+      vm.connection = {
+        host: vm.getStringAttribute("ip"),
+        user: "admin",
+        privateKey: '${file("~/.ssh/id_rsa")}',
+        bastion: { host: "bastion.example.com", user: "jump" },
+      };
+      vm.provisioners = [
+        {
+          type: "file",
+          source: "bootstrap.sh",
+          destination: "/tmp/bootstrap.sh",
+        },
+        {
+          type: "remote-exec",
+          inline: ["sh /tmp/bootstrap.sh"],
+          connection: { type: "winrm", host: "10.0.0.5", https: true, useNtlm: true },
+        },
+        {
+          type: "local-exec",
+          command: "echo destroyed",
+          environment: { VM_NAME: "legacy" },
+          when: "destroy",
+          onFailure: "continue",
+        },
+      ];
+
+      const synth = Testing.synth(stack);
+      const config = synth.resource?.["test_resource"]?.["vm"];
+      expect(config?.["connection"]).toEqual({
+        host: "${test_resource.vm.ip}",
+        user: "admin",
+        private_key: '${file("~/.ssh/id_rsa")}',
+        bastion_host: "bastion.example.com",
+        bastion_user: "jump",
+      });
+      expect(config?.["provisioner"]).toEqual([
+        { file: { source: "bootstrap.sh", destination: "/tmp/bootstrap.sh" } },
+        {
+          "remote-exec": {
+            inline: ["sh /tmp/bootstrap.sh"],
+            connection: { type: "winrm", host: "10.0.0.5", https: true, use_ntlm: true },
+          },
+        },
+        {
+          "local-exec": {
+            command: "echo destroyed",
+            environment: { VM_NAME: "legacy" },
+            when: "destroy",
+            on_failure: "continue",
+          },
+        },
+      ]);
+    });
+
+    test("renders provisioner keywords as bare HCL", () => {
+      const outdir = mkdtempSync(join(tmpdir(), "tfts.hcl."));
+      const app = new App({ outdir, hclOutput: true });
+      const stack = new TerraformStack(app, "hcl-stack");
+      new TestProvider(stack, "test");
+      const vm = new TestResource(stack, "vm", { name: "legacy" });
+      vm.provisioners = [
+        { type: "local-exec", command: "echo bye", when: "destroy", onFailure: "continue" },
+      ];
+      app.synth();
+
+      const hcl = readFileSync(join(outdir, "stacks", "hcl-stack", "main.tf"), "utf-8");
+      expect(hcl).toContain('provisioner "local-exec" {');
+      expect(hcl).toContain("when       = destroy");
+      expect(hcl).toContain("on_failure = continue");
+    });
+  });
+
+  describe("Checks", () => {
+    test("synthesizes assertions with scoped data sources inside the check block", () => {
+      const app = new App({ outdir: "cdktf.out" });
+      const stack = new TerraformStack(app, "test-stack");
+      new TestProvider(stack, "test");
+      new TestDataSource(stack, "top-level", { filter: "all" });
+      const check = new TerraformCheck(stack, "health");
+      const probe = new TestDataSource(check, "probe", { filter: "name=web" });
+      check.addAssert({ condition: Op.eq(probe.resultOutput, "ok"), errorMessage: "Web is down." });
+
+      const synth = Testing.synth(stack);
+      expect(Object.keys(synth.data?.["test_data"] ?? {})).toEqual(["top-level"]);
+      expect(synth.check?.[check.friendlyUniqueId]).toEqual({
+        data: { test_data: { [probe.friendlyUniqueId]: { filter: "name=web" } } },
+        assert: [
+          {
+            condition: `\${(data.test_data.${probe.friendlyUniqueId}.result == "ok")}`,
+            error_message: "Web is down.",
+          },
+        ],
+      });
+    });
+
+    test("renders check blocks as HCL", () => {
+      const outdir = mkdtempSync(join(tmpdir(), "tfts.hcl."));
+      const app = new App({ outdir, hclOutput: true });
+      const stack = new TerraformStack(app, "hcl-stack");
+      new TestProvider(stack, "test");
+      const check = new TerraformCheck(stack, "health", {
+        assert: [{ condition: Op.neq(Fn.lengthOf("${var.zones}"), 0), errorMessage: "No zones." }],
+      });
+      new TestDataSource(check, "probe", { filter: "name=web" });
+      app.synth();
+
+      const hcl = readFileSync(join(outdir, "stacks", "hcl-stack", "main.tf"), "utf-8");
+      expect(hcl).toContain('check "health" {');
+      expect(hcl).toContain('  data "test_data" "');
+      expect(hcl).toContain("  assert {");
+      expect(hcl).toContain("condition     = (length(var.zones) != 0)");
+    });
+
+    test("reports checks without assertions and non-data-source children", () => {
+      const app = new App({ outdir: "cdktf.out" });
+      const stack = new TerraformStack(app, "test-stack");
+      new TestProvider(stack, "test");
+      const check = new TerraformCheck(stack, "health");
+      new TerraformOutput(check, "leak", { value: "x" });
+
+      const messages = app.validate().errors.map((e) => e.message);
+      expect(messages).toContain("Check must have at least one assert");
+      expect(messages).toContain('Only data sources can be declared inside check "health"');
+    });
+  });
+
+  describe("State Refactoring", () => {
+    test("moves resources to targets registered by other constructs", () => {
+      const app = new App({ outdir: "cdktf.out" });
+      const stack = new TerraformStack(app, "test-stack");
+      new TestProvider(stack, "test");
+      const legacy = new Construct(stack, "legacy");
+      const oldBucket = new TestResource(legacy, "bucket", { name: "assets" });
+      const oldLogs = new TestResource(legacy, "logs", { name: "logs" });
+      const storage = new Construct(stack, "storage");
+      const bucket = new TestResource(storage, "bucket", { name: "assets" });
+      const logs = new TestResource(storage, "logs", { name: "logs" });
+
+      bucket.addMoveTarget("assets-bucket");
+      logs.addMoveTarget("logs-bucket");
+      oldBucket.moveTo("assets-bucket");
+      oldLogs.moveTo("logs-bucket", "primary");
+
+      const synth = Testing.synth(stack);
+      expect(Object.keys(synth.resource?.["test_resource"] ?? {}).sort()).toEqual(
+        [bucket.friendlyUniqueId, logs.friendlyUniqueId].sort(),
+      );
+      expect(synth.moved).toEqual([
+        { from: `test_resource.${oldBucket.friendlyUniqueId}`, to: bucket.rawFqn },
+        { from: `test_resource.${oldLogs.friendlyUniqueId}`, to: `${logs.rawFqn}["primary"]` },
+      ]);
+      expect(app.validate().errors).toEqual([]);
+    });
+
+    test("removes resources from state without destroying them", () => {
+      const outdir = mkdtempSync(join(tmpdir(), "tfts.hcl."));
+      const app = new App({ outdir, hclOutput: true });
+      const stack = new TerraformStack(app, "hcl-stack");
+      new TestProvider(stack, "test");
+      const legacy = new TestResource(stack, "legacy", { name: "legacy" });
+      new TestResource(stack, "kept", { name: "kept" });
+      legacy.removeFromState();
+
+      const synth = Testing.synth(stack);
+      expect(Object.keys(synth.resource?.["test_resource"] ?? {})).toEqual(["kept"]);
+      expect(synth.removed).toEqual([
+        { from: "test_resource.legacy", lifecycle: { destroy: false } },
+      ]);
+
+      app.synth();
+      const hcl = readFileSync(join(outdir, "stacks", "hcl-stack", "main.tf"), "utf-8");
+      expect(hcl).toContain(
+        "removed {\n  from = test_resource.legacy\n\n  lifecycle {\n    destroy = false\n  }\n}",
+      );
+    });
+
+    test("reports missing and duplicate move targets", () => {
+      const app = new App({ outdir: "cdktf.out" });
+      const stack = new TerraformStack(app, "test-stack");
+      new TestProvider(stack, "test");
+      const first = new TestResource(stack, "first", { name: "first" });
+      const second = new TestResource(stack, "second", { name: "second" });
+      first.moveTo("nowhere");
+      second.addMoveTarget("target");
+
+      expect(() => {
+        first.addMoveTarget("target");
+      }).toThrow('Move target "target" is already registered by test-stack/second');
+      expect(app.validate().errors.map((e) => e.message)).toEqual([
+        'Move target "nowhere" does not exist in stack "test-stack"',
+      ]);
+    });
+  });
+
+  describe("Ephemeral Values", () => {
+    class TestSecret extends TerraformEphemeralResource {
+      constructor(
+        scope: Construct,
+        id: string,
+        private readonly secretName: string,
+      ) {
+        super(scope, id, { terraformResourceType: "test_secret" });
+      }
+
+      protected override synthesizeAttributes(): Record<string, unknown> {
+        return { name: this.secretName };
+      }
+    }
+
+    test("synthesizes ephemeral variables, outputs and resources", () => {
+      const app = new App({ outdir: "cdktf.out" });
+      const stack = new TerraformStack(app, "test-stack");
+      new TestProvider(stack, "test");
+      const token = new TerraformVariable(stack, "token", { type: "string", ephemeral: true });
+      const secret = new TestSecret(stack, "db-password", "db");
+      new TerraformOutput(stack, "password", {
+        value: secret.getStringAttribute("value"),
+        ephemeral: true,
+      });
+      new TestResource(stack, "db", { name: String(token.value) });
+
+      const synth = Testing.synth(stack);
+      expect(synth.variable?.["token"]).toEqual({ type: "string", ephemeral: true });
+      expect(synth.ephemeral?.["test_secret"]?.["db-password"]).toEqual({ name: "db" });
+      expect(synth.output?.["password"]).toEqual({
+        value: "${ephemeral.test_secret.db-password.value}",
+        ephemeral: true,
+      });
+    });
+
+    test("writes depends_on addresses and renders fqn without a trailing dot", () => {
+      const app = new App({ outdir: "cdktf.out" });
+      const stack = new TerraformStack(app, "test-stack");
+      new TestProvider(stack, "test");
+      const resource = new TestResource(stack, "web", { name: "web" });
+      const lookup = new TestDataSource(stack, "lookup", { filter: "name=web" });
+      const secret = new TerraformEphemeralResource(stack, "secret", {
+        terraformResourceType: "test_secret",
+        dependsOn: [resource, lookup],
+      });
+      new TerraformOutput(stack, "lookup-address", { value: lookup.fqn });
+
+      const synth = Testing.synth(stack);
+      expect(synth.ephemeral?.["test_secret"]?.["secret"]?.["depends_on"]).toEqual([
+        "test_resource.web",
+        "data.test_data.lookup",
+      ]);
+      expect(synth.output?.["lookup-address"]?.value).toBe("${data.test_data.lookup}");
+      expect(secret.rawFqn).toBe("ephemeral.test_secret.secret");
+    });
+
+    test("renders ephemeral blocks as HCL", () => {
+      const outdir = mkdtempSync(join(tmpdir(), "tfts.hcl."));
+      const app = new App({ outdir, hclOutput: true });
+      const stack = new TerraformStack(app, "hcl-stack");
+      new TestProvider(stack, "test");
+      new TestSecret(stack, "db-password", "db");
+      app.synth();
+
+      const hcl = readFileSync(join(outdir, "stacks", "hcl-stack", "main.tf"), "utf-8");
+      expect(hcl).toContain('ephemeral "test_secret" "db-password" {\n  name = "db"\n}');
+    });
+  });
+
   describe("Complex Stack", () => {
     test("synthesizes complete infrastructure stack", () => {
       const app = new App({ outdir: "cdktf.out" });
@@ -379,6 +861,556 @@ describe("Integration Tests", () => {
     });
   });
 
+  describe("Token Registries", () => {
+    test("resolves tokens of interleaved apps in their own app", () => {
+      const first = new TerraformStack(Testing.app(), "first");
+      const second = new TerraformStack(Testing.app(), "second");
+      new TestProvider(first, "test");
+      new TestProvider(second, "test");
+      const source = new TestResource(first, "source", { name: "source" });
+      new TestResource(second, "other", { name: "other" });
+
+      new TestResource(first, "consumer", { name: Fn.upper(source.getStringAttribute("id")) });
+
+      const synth = Testing.synth(first);
+      expect(synth.resource?.["test_resource"]?.["consumer"]?.["name"]).toBe(
+        "${upper(test_resource.source.id)}",
+      );
+    });
+
+    test("resolves Fn tokens created after another app was constructed", () => {
+      const first = new TerraformStack(Testing.app(), "a");
+      const name = new TerraformVariable(first, "v").stringValue;
+      new TerraformStack(Testing.app(), "b");
+
+      new TerraformOutput(first, "o", { value: Fn.upper(name) });
+
+      const synth = Testing.synth(first);
+      expect(synth.output?.["o"]?.value).toBe("${upper(var.v)}");
+    });
+
+    test("rejects tokens created in another app", () => {
+      const first = new TerraformStack(Testing.app(), "first");
+      const second = new TerraformStack(Testing.app(), "second");
+      new TestProvider(first, "test");
+      new TestProvider(second, "test");
+      const source = new TestResource(first, "source", { name: "source" });
+      new TestResource(second, "consumer", { name: source.getStringAttribute("id") });
+
+      expect(() => Testing.synth(second)).toThrow(
+        /Stack "second" uses tokens that were not created in its App: \$\{TfToken\[\d+\]\}/,
+      );
+    });
+
+    test.each([
+      ["list attribute", (source: TestResource): unknown => source.getListAttribute("ids")],
+      ["map attribute", (source: TestResource): unknown => source.getStringMapAttribute("tags")],
+      ["Fn call", (source: TestResource): unknown => Fn.upper(source.getStringAttribute("id"))],
+    ])("rejects a %s token created in another app", (_kind, value) => {
+      const first = new TerraformStack(Testing.app(), "first");
+      const second = new TerraformStack(Testing.app(), "second");
+      const source = new TestResource(first, "source", { name: "source" });
+      new TerraformOutput(second, "o", { value: value(source) });
+
+      expect(() => Testing.synth(second)).toThrow(
+        /Stack "second" uses tokens that were not created in its App: (\$\{)?TfToken\[\d+\]/,
+      );
+    });
+  });
+
+  describe("Dependency Graph", () => {
+    test("collects stack, depends_on and reference edges", () => {
+      const outdir = mkdtempSync(join(tmpdir(), "tfts.graph."));
+      const app = new App({ outdir });
+      const network = new TerraformStack(app, "network");
+      const service = new TerraformStack(app, "service");
+      new TestProvider(network, "test");
+      new TestProvider(service, "test");
+      new TestResource(network, "vpc", { name: "vpc" });
+      const bucket = new TestResource(service, "bucket", { name: "bucket" });
+      const lookup = new TestDataSource(service, "lookup", { filter: "all" });
+      const server = new TestResource(service, "server", {
+        name: Fn.upper(bucket.getStringAttribute("id")),
+      });
+      server.dependsOn = [lookup.rawFqn];
+      new TerraformOutput(service, "name", { value: server.getStringAttribute("name") });
+      service.addDependency(network);
+
+      const graph = app.graph();
+
+      expect(graph.nodes.map((node) => node.id)).toEqual([
+        "network",
+        "network/test_resource.vpc",
+        "service",
+        "service/test_resource.bucket",
+        "service/data.test_data.lookup",
+        "service/test_resource.server",
+      ]);
+      expect(graph.edges).toEqual([
+        { from: "service", to: "network", kind: "stack" },
+        {
+          from: "service/test_resource.server",
+          to: "service/data.test_data.lookup",
+          kind: "depends-on",
+        },
+        {
+          from: "service/test_resource.server",
+          to: "service/test_resource.bucket",
+          kind: "reference",
+        },
+      ]);
+      expect(graph.nodes[3]?.constructPath).toBe("service/bucket");
+    });
+
+    test("collects depends_on edges of data sources and fqn tokens", () => {
+      const app = Testing.app();
+      const stack = new TerraformStack(app, "stack");
+      new TestProvider(stack, "test");
+      const bucket = new TestResource(stack, "bucket", { name: "bucket" });
+      const lookup = new TestDataSource(stack, "lookup", { filter: "all" });
+      lookup.dependsOn = [bucket.fqn];
+      const server = new TestResource(stack, "server", { name: "server" });
+      server.dependsOn = [lookup.fqn];
+
+      expect(app.graph().edges).toEqual([
+        {
+          from: "stack/data.test_data.lookup",
+          to: "stack/test_resource.bucket",
+          kind: "depends-on",
+        },
+        {
+          from: "stack/test_resource.server",
+          to: "stack/data.test_data.lookup",
+          kind: "depends-on",
+        },
+      ]);
+    });
+
+    test("writes graph.json during synth when requested", () => {
+      const outdir = mkdtempSync(join(tmpdir(), "tfts.graph."));
+      const app = new App({ outdir });
+      const stack = new TerraformStack(app, "stack");
+      new TestProvider(stack, "test");
+      new TestResource(stack, "resource", { name: "resource" });
+
+      process.env["TFTS_GRAPH_OUTPUT"] = "true";
+      try {
+        app.synth();
+      } finally {
+        delete process.env["TFTS_GRAPH_OUTPUT"];
+      }
+
+      const written: unknown = JSON.parse(readFileSync(join(outdir, "graph.json"), "utf-8"));
+      expect(written).toEqual(app.graph());
+    });
+  });
+
+  describe("Assets", () => {
+    function writeSources(dir: string, mtime: Date): void {
+      mkdirSync(join(dir, "lib"), { recursive: true });
+      for (const [file, content] of [
+        ["index.js", "exports.handler = () => 1;\n"],
+        ["lib/util.js", "module.exports = {};\n"],
+      ] as const) {
+        writeFileSync(join(dir, file), content);
+        utimesSync(join(dir, file), mtime, mtime);
+      }
+    }
+
+    test("archives directories into reproducible zips", () => {
+      const first = mkdtempSync(join(tmpdir(), "tfts.asset."));
+      const second = mkdtempSync(join(tmpdir(), "tfts.asset."));
+      writeSources(first, new Date("2020-01-01"));
+      writeSources(second, new Date("2024-06-30"));
+
+      const archives = [first, second].map((source) => {
+        const stack = new TerraformStack(Testing.app(), "stack");
+        const asset = new TerraformAsset(stack, "code", { path: source, type: AssetType.ARCHIVE });
+        const outdir = mkdtempSync(join(tmpdir(), "tfts.asset.out."));
+        asset.copyToOutputDir(outdir);
+        return { asset, zip: readFileSync(join(outdir, asset.path)) };
+      });
+
+      expect(archives[0]?.asset.path).toBe(
+        `assets/code/${archives[0]?.asset.assetHash ?? ""}/archive.zip`,
+      );
+      expect(archives[0]?.asset.assetHash).toBe(archives[1]?.asset.assetHash ?? "");
+      expect(archives[0]?.zip.equals(archives[1]?.zip ?? Buffer.alloc(0))).toBe(true);
+    });
+
+    test("copies assets into the stack directory and prunes stale hashes", () => {
+      const source = mkdtempSync(join(tmpdir(), "tfts.asset."));
+      const outdir = mkdtempSync(join(tmpdir(), "tfts.asset.out."));
+      writeSources(source, new Date("2020-01-01"));
+      writeFileSync(join(source, "config.json"), "{}");
+
+      const synthApp = (): { stackDir: string; code: TerraformAsset } => {
+        const app = new App({ outdir });
+        const stack = new TerraformStack(app, "stack");
+        new TestProvider(stack, "test");
+        const code = new TerraformAsset(stack, "code", { path: source, type: AssetType.ARCHIVE });
+        new TerraformAsset(stack, "config", { path: join(source, "config.json") });
+        new TestResource(stack, "function", { name: code.path });
+        app.synth();
+        return { stackDir: join(outdir, "stacks", "stack"), code };
+      };
+
+      const first = synthApp();
+      expect(existsSync(join(first.stackDir, first.code.path))).toBe(true);
+      const manifest: unknown = JSON.parse(readFileSync(join(outdir, "manifest.json"), "utf-8"));
+      expect(manifest).toMatchObject({
+        stacks: {
+          stack: {
+            assets: [
+              {
+                constructPath: "stack/code",
+                type: "archive",
+                sourcePath: source,
+                path: first.code.path,
+                assetHash: first.code.assetHash,
+              },
+              {
+                constructPath: "stack/config",
+                type: "file",
+                sourcePath: join(source, "config.json"),
+              },
+            ],
+          },
+        },
+      });
+
+      writeFileSync(join(source, "index.js"), "exports.handler = () => 2;\n");
+      const second = synthApp();
+
+      expect(second.code.assetHash).not.toBe(first.code.assetHash);
+      expect(existsSync(join(second.stackDir, second.code.path))).toBe(true);
+      expect(existsSync(join(first.stackDir, first.code.path))).toBe(false);
+    });
+
+    test("leaves excluded files out of the hash, the copy and the archive", () => {
+      const source = mkdtempSync(join(tmpdir(), "tfts.asset."));
+      writeSources(source, new Date("2020-01-01"));
+      writeFileSync(join(source, ".tftsignore"), "# build output\ndist/\n");
+      writeFileSync(join(source, ".gitignore"), "lib/\n");
+      mkdirSync(join(source, "dist"));
+      mkdirSync(join(source, "node_modules"));
+      writeFileSync(join(source, "dist", "bundle.js"), "1");
+      writeFileSync(join(source, "node_modules", "dep.js"), "1");
+      const stack = new TerraformStack(Testing.app(), "stack");
+      const config = { path: source, exclude: ["node_modules", ".tftsignore"] };
+
+      const directory = new TerraformAsset(stack, "directory", config);
+      const archive = new TerraformAsset(stack, "archive", { ...config, type: AssetType.ARCHIVE });
+      const outdir = mkdtempSync(join(tmpdir(), "tfts.asset.out."));
+      directory.copyToOutputDir(outdir);
+      archive.copyToOutputDir(outdir);
+
+      const copied = join(outdir, directory.path);
+      expect(existsSync(join(copied, "index.js"))).toBe(true);
+      expect(existsSync(join(copied, "lib", "util.js"))).toBe(true);
+      expect(existsSync(join(copied, "dist"))).toBe(false);
+      expect(existsSync(join(copied, "node_modules"))).toBe(false);
+      expect(existsSync(join(copied, ".tftsignore"))).toBe(false);
+      const zip = readFileSync(join(outdir, archive.path));
+      expect(zip.includes("lib/util.js")).toBe(true);
+      expect(zip.includes("bundle.js")).toBe(false);
+      expect(zip.includes("dep.js")).toBe(false);
+
+      writeFileSync(join(source, "dist", "bundle.js"), "2");
+      writeFileSync(join(source, "node_modules", "dep.js"), "2");
+      const rehashed = new TerraformAsset(stack, "rehashed", config);
+      expect(rehashed.assetHash).toBe(directory.assetHash);
+    });
+
+    test("supports output and custom hashes", () => {
+      const source = mkdtempSync(join(tmpdir(), "tfts.asset."));
+      writeSources(source, new Date("2020-01-01"));
+      const stack = new TerraformStack(Testing.app(), "stack");
+
+      const output = new TerraformAsset(stack, "output", {
+        path: source,
+        type: AssetType.ARCHIVE,
+        assetHashType: AssetHashType.OUTPUT,
+      });
+      const outdir = mkdtempSync(join(tmpdir(), "tfts.asset.out."));
+      output.copyToOutputDir(outdir);
+      const zipHash = createHash("sha256")
+        .update(readFileSync(join(outdir, output.path)))
+        .digest("hex");
+      expect(zipHash.startsWith(output.assetHash)).toBe(true);
+
+      const custom = new TerraformAsset(stack, "custom", { path: source, assetHash: "v1" });
+      expect(custom.path).toBe("assets/custom/v1");
+      expect(
+        () =>
+          new TerraformAsset(stack, "missing", {
+            path: source,
+            assetHashType: AssetHashType.CUSTOM,
+          }),
+      ).toThrow("Asset missing uses a custom hash but no assetHash is set");
+      expect(
+        () =>
+          new TerraformAsset(stack, "conflict", {
+            path: source,
+            assetHash: "v1",
+            assetHashType: AssetHashType.SOURCE,
+          }),
+      ).toThrow("Asset conflict sets assetHash, which requires AssetHashType.CUSTOM");
+    });
+
+    test("archives a single file", () => {
+      const source = mkdtempSync(join(tmpdir(), "tfts.asset."));
+      writeFileSync(join(source, "handler.py"), "def handler(event, context): pass\n");
+      const stack = new TerraformStack(Testing.app(), "stack");
+
+      const asset = new TerraformAsset(stack, "handler", {
+        path: join(source, "handler.py"),
+        type: AssetType.ARCHIVE,
+      });
+      const outdir = mkdtempSync(join(tmpdir(), "tfts.asset.out."));
+      asset.copyToOutputDir(outdir);
+
+      const zip = readFileSync(join(outdir, asset.path));
+      expect(zip.readUInt32LE(0)).toBe(0x04034b50);
+      expect(zip.includes("handler.py")).toBe(true);
+    });
+  });
+
+  describe("Construct Tree", () => {
+    test("builds the core tree from the construct tree", () => {
+      const app = new App({ outdir: "cdktf.out" });
+      const stack = new TerraformStack(app, "tree-stack");
+      new TestProvider(stack, "test");
+      new TestResource(stack, "my-resource", { name: "example" });
+      new TerraformVariable(stack, "region", { type: "string" });
+
+      const tree = buildConstructTree(app);
+
+      expect(tree.metadata.kind).toBe("app");
+      const [stackNode] = getDescendants(tree, "stack");
+      expect(stackNode?.path).toEqual(["tree-stack"]);
+      expect(stackNode?.metadata).toEqual({
+        kind: "stack",
+        stackName: "tree-stack",
+        dependencies: [],
+      });
+
+      const [resourceNode] = getDescendants(tree, "resource");
+      expect(resourceNode?.path).toEqual(["tree-stack", "my-resource"]);
+      expect(
+        resourceNode?.metadata.kind === "resource" ? resourceNode.metadata.resource : undefined,
+      ).toMatchObject({
+        terraformResourceType: "test_resource",
+        config: { name: "example" },
+      });
+      expect(getDescendants(tree, "variable")).toHaveLength(1);
+      expect(getDescendants(tree, "provider")).toHaveLength(1);
+    });
+
+    test("runs core validations against the tree", () => {
+      const app = new App({ outdir: "cdktf.out" });
+      const stack = new TerraformStack(app, "tree-stack");
+      new TerraformOutput(stack, "missing", { value: undefined });
+
+      const errors = walkTree(buildConstructTree(app), validateNode).flat();
+
+      expect(errors).toContainEqual({
+        path: ["tree-stack", "missing"],
+        message: "Output must have a value",
+        level: "error",
+      });
+      expect(errors).toContainEqual({
+        path: ["tree-stack"],
+        message: "Stack has no providers configured",
+        level: "warning",
+      });
+    });
+  });
+
+  describe("HCL Output", () => {
+    test("writes main.tf instead of cdk.tf.json when hclOutput is enabled", () => {
+      const outdir = mkdtempSync(join(tmpdir(), "tfts.hcl."));
+      const app = new App({ outdir, hclOutput: true });
+      const stack = new TerraformStack(app, "hcl-stack");
+      new TestProvider(stack, "test");
+      const first = new TestResource(stack, "first", { name: "example" });
+      new TestResource(stack, "second", { name: first.idOutput, tags: { env: "dev" } });
+
+      const stackDir = join(outdir, "stacks", "hcl-stack");
+      mkdirSync(stackDir, { recursive: true });
+      writeFileSync(join(stackDir, "cdk.tf.json"), "{}");
+      app.synth();
+
+      expect(existsSync(join(stackDir, "cdk.tf.json"))).toBe(false);
+      const hcl = readFileSync(join(stackDir, "main.tf"), "utf-8");
+      expect(hcl).toContain('provider "test" {}');
+      expect(hcl).toContain('resource "test_resource" "second" {');
+      expect(hcl).toContain("name = test_resource.first.id");
+      expect(app.manifest.stacks["hcl-stack"]?.synthesizedStackPath).toBe(
+        join(stackDir, "main.tf"),
+      );
+    });
+  });
+
+  describe("Validation Reports", () => {
+    test("fails synthesis and records errors in the manifest", () => {
+      const outdir = mkdtempSync(join(tmpdir(), "tfts.validation."));
+      const app = new App({ outdir });
+      const stack = new TerraformStack(app, "invalid-stack");
+      new TestProvider(stack, "test");
+      new TerraformOutput(stack, "missing", { value: undefined });
+
+      expect(() => {
+        app.synth();
+      }).toThrow("[invalid-stack/missing] Output must have a value");
+
+      const manifest: unknown = JSON.parse(readFileSync(join(outdir, "manifest.json"), "utf-8"));
+      expect(manifest).toMatchObject({
+        validation: {
+          errors: [
+            {
+              constructPath: "invalid-stack/missing",
+              level: "error",
+              message: "Output must have a value",
+            },
+          ],
+          warnings: [],
+        },
+      });
+    });
+
+    test("reports a stack without providers once", () => {
+      const app = new App({ outdir: "cdktf.out" });
+      new TerraformStack(app, "bare-stack");
+
+      const report = app.validate();
+
+      expect(report.errors).toEqual([
+        {
+          constructPath: "bare-stack",
+          level: "error",
+          message: 'Stack "bare-stack" has no providers configured',
+        },
+      ]);
+      expect(report.warnings).toEqual([]);
+    });
+
+    test("validateReferences reports references to missing elements and attributes", () => {
+      class SchemaResource extends TerraformResource {
+        constructor(scope: Construct, id: string) {
+          super(scope, id, {
+            terraformResourceType: "test_network",
+            terraformGeneratorMetadata: { providerName: "test", attributes: ["id", "cidr"] },
+          });
+        }
+      }
+
+      const app = new App({ outdir: "cdktf.out", validateReferences: true });
+      const stack = new TerraformStack(app, "refs-stack");
+      const other = new TerraformStack(app, "other-stack");
+      new TestProvider(stack, "test");
+      new TestProvider(other, "test");
+      const network = new SchemaResource(stack, "network");
+      const elsewhere = new TestResource(other, "elsewhere", { name: "elsewhere" });
+      new TestResource(stack, "valid", { name: network.getStringAttribute("cidr") });
+      new TestResource(stack, "typo", { name: network.getStringAttribute("cdir") });
+      new TestResource(stack, "cross", { name: elsewhere.getStringAttribute("id") });
+
+      const report = app.validate();
+
+      expect(report.errors).toEqual([
+        {
+          constructPath: "refs-stack/typo",
+          level: "error",
+          message:
+            'Reference to "test_network.network.cdir" uses an attribute missing from its schema',
+        },
+        {
+          constructPath: "refs-stack/cross",
+          level: "error",
+          message:
+            'Reference to "test_resource.elsewhere" does not match any element in stack "refs-stack"',
+        },
+      ]);
+    });
+
+    test("skipValidation bypasses the report", () => {
+      const outdir = mkdtempSync(join(tmpdir(), "tfts.validation."));
+      const app = new App({ outdir, skipValidation: true });
+      const stack = new TerraformStack(app, "invalid-stack");
+      new TerraformOutput(stack, "missing", { value: undefined });
+
+      app.synth();
+
+      expect(app.manifest.validation).toBeUndefined();
+    });
+  });
+
+  describe("Annotations", () => {
+    let outdir: string;
+
+    beforeEach(() => {
+      outdir = mkdtempSync(join(tmpdir(), "tfts.annotations."));
+    });
+
+    afterEach(() => {
+      rmSync(outdir, { recursive: true, force: true });
+    });
+
+    test("records annotations with construct paths in the stack manifest", () => {
+      const app = new App({ outdir });
+      const stack = new TerraformStack(app, "annotated-stack");
+      new TestProvider(stack, "test");
+      const resource = new TestResource(stack, "res", { name: "example" });
+      Annotations.of(resource).addWarning("Bucket is public");
+      Annotations.of(stack).addInfo("Deployed to us-east1");
+
+      app.synth();
+
+      const annotations = app.manifest.stacks["annotated-stack"]?.annotations ?? [];
+      expect(annotations).toMatchObject([
+        { constructPath: "annotated-stack", level: "info", message: "Deployed to us-east1" },
+        { constructPath: "annotated-stack/res", level: "warning", message: "Bucket is public" },
+      ]);
+      expect(
+        annotations[1]?.stacktrace?.some((frame) => frame.includes("integration.spec.ts")),
+      ).toBe(true);
+    });
+
+    test("omits stack traces when disabled", () => {
+      const app = new App({ outdir, stackTraces: false });
+      const stack = new TerraformStack(app, "annotated-stack");
+      new TestProvider(stack, "test");
+      Annotations.of(stack).addWarning("No trace");
+
+      app.synth();
+
+      expect(app.manifest.stacks["annotated-stack"]?.annotations).toEqual([
+        { constructPath: "annotated-stack", level: "warning", message: "No trace" },
+      ]);
+    });
+
+    test("fails synthesis on error annotations", () => {
+      const app = new App({ outdir, stackTraces: false });
+      const stack = new TerraformStack(app, "annotated-stack");
+      new TestProvider(stack, "test");
+      Annotations.of(stack).addError("Unsupported region");
+
+      expect(() => {
+        app.synth();
+      }).toThrow("[annotated-stack] Unsupported region");
+
+      const manifest: unknown = JSON.parse(readFileSync(join(outdir, "manifest.json"), "utf-8"));
+      expect(manifest).toMatchObject({
+        stacks: {
+          "annotated-stack": {
+            annotations: [{ level: "error", message: "Unsupported region" }],
+          },
+        },
+      });
+    });
+  });
+
   describe("Testing Utilities", () => {
     test("synthScope creates isolated scope", () => {
       const synth = Testing.synthScope((stack: TerraformStack) => {
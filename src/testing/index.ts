@@ -19,10 +19,15 @@ export type TerraformJson = {
   provider?: Record<string, unknown[]>;
   resource?: Record<string, Record<string, Record<string, unknown>>>;
   data?: Record<string, Record<string, Record<string, unknown>>>;
+  ephemeral?: Record<string, Record<string, Record<string, unknown>>>;
   variable?: Record<string, Record<string, unknown>>;
   output?: Record<string, Record<string, unknown>>;
   locals?: Record<string, unknown>;
   module?: Record<string, Record<string, unknown>>;
+  check?: Record<string, Record<string, unknown>>;
+  moved?: Record<string, unknown>[];
+  import?: Record<string, unknown>[];
+  removed?: Record<string, unknown>[];
   validationErrors?: readonly string[];
 };
 